@@ -0,0 +1,39 @@
+import React from "react";
+import { Image, Space, Typography } from "antd";
+import { PaperClipOutlined } from "@ant-design/icons";
+import type { AttachmentInfo } from "../utils/socket";
+import { attachmentUrl, fmtSize, isImage } from "../utils/upload";
+
+const { Text } = Typography;
+
+/**
+ * Adjuntos de un mensaje: imágenes con vista previa, el resto como enlace de descarga
+ */
+const Attachments: React.FC<{ items: AttachmentInfo[] }> = ({ items }) => (
+  <Space direction="vertical" size={6}>
+    {items.some(isImage) && (
+      <Image.PreviewGroup>
+        <Space wrap size={6}>
+          {items.filter(isImage).map((a) => (
+            <Image
+              key={a.id}
+              src={attachmentUrl(a.id)}
+              alt={a.name}
+              width={200}
+              style={{ maxHeight: 200, objectFit: "cover", borderRadius: 8 }}
+            />
+          ))}
+        </Space>
+      </Image.PreviewGroup>
+    )}
+    {items
+      .filter((a) => !isImage(a))
+      .map((a) => (
+        <Typography.Link key={a.id} href={attachmentUrl(a.id)} target="_blank" rel="noopener noreferrer">
+          <PaperClipOutlined /> {a.name} <Text type="secondary">({fmtSize(a.size)})</Text>
+        </Typography.Link>
+      ))}
+  </Space>
+);
+
+export default Attachments;
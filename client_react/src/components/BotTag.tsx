@@ -0,0 +1,12 @@
+import React from "react";
+import { Tag } from "antd";
+import { RobotOutlined } from "@ant-design/icons";
+
+// Marca los mensajes publicados por bots (webhooks)
+const BotTag: React.FC = () => (
+  <Tag icon={<RobotOutlined />} color="purple" style={{ marginInlineEnd: 0 }}>
+    BOT
+  </Tag>
+);
+
+export default BotTag;
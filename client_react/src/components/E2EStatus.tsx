@@ -0,0 +1,136 @@
+import React from "react";
+import { Alert, Button, Popover, Space, Typography } from "antd";
+import { LockOutlined, UnlockOutlined } from "@ant-design/icons";
+import { hasUntrusted, type PeerDevice, type PeerKey } from "../utils/e2e";
+
+const { Text } = Typography;
+
+type Props = {
+  peer: string;
+  // Huella propia: undefined mientras se carga, null si este navegador no puede cifrar
+  myFingerprint: string | null | undefined;
+  // undefined mientras se consulta
+  peerKey?: PeerKey;
+  // Los otros dispositivos propios (también reciben los mensajes)
+  ownKey?: PeerKey;
+  onAccept: () => void;
+  // Confirma enviar sin cifrar a un contacto que antes tenía clave
+  onAllowPlaintext: () => void;
+};
+
+const Fingerprint: React.FC<{ value: string; trusted?: boolean }> = ({ value, trusted = true }) => (
+  <Text code copyable type={trusted ? undefined : "warning"} style={{ fontSize: 12 }}>
+    {value}
+    {!trusted && " (nueva)"}
+  </Text>
+);
+
+// Un mismo navegador con varias pestañas comparte la clave: cada huella una vez
+const uniqueFingerprints = (devices: PeerDevice[], except?: string) => {
+  const seen = new Map<string, boolean>();
+  for (const d of devices) if (d.fingerprint !== except) seen.set(d.fingerprint, (seen.get(d.fingerprint) ?? true) && d.trusted);
+  return Array.from(seen, ([fingerprint, trusted]) => ({ fingerprint, trusted }));
+};
+
+/**
+ * Estado del cifrado de una conversación privada, sobre la lista de mensajes
+ */
+const E2EStatus: React.FC<Props> = ({ peer, myFingerprint, peerKey, ownKey, onAccept, onAllowPlaintext }) => {
+  const style = { marginBottom: 8 };
+  if (myFingerprint === null) {
+    return (
+      <Text type="warning" style={{ display: "block", ...style }}>
+        <UnlockOutlined /> Este navegador no permite cifrar: los mensajes van sin cifrar.
+      </Text>
+    );
+  }
+  if (!myFingerprint || !peerKey) {
+    return (
+      <Text type="secondary" style={{ display: "block", ...style }}>
+        Comprobando la clave de {peer}…
+      </Text>
+    );
+  }
+  if (peerKey.missing) {
+    return (
+      <Alert
+        type="warning"
+        showIcon
+        style={style}
+        message={`${peer} ya no tiene una clave publicada`}
+        description={
+          <>
+            Antes sus mensajes iban cifrados. Puede haber borrado los datos del navegador o ser alguien
+            haciéndose pasar por {peer}. Lo que envíes iría sin cifrar; hasta que lo confirmes no se envían
+            mensajes.
+          </>
+        }
+        action={
+          <Button size="small" danger onClick={onAllowPlaintext}>
+            Enviar sin cifrar
+          </Button>
+        }
+      />
+    );
+  }
+  if (peerKey.devices.length === 0) {
+    return (
+      <Text type="warning" style={{ display: "block", ...style }}>
+        <UnlockOutlined /> {peer} no tiene una clave publicada: los mensajes van sin cifrar.
+      </Text>
+    );
+  }
+  const mine = uniqueFingerprints(ownKey?.devices ?? [], myFingerprint);
+  const theirs = uniqueFingerprints(peerKey.devices);
+  const fingerprints = (
+    <Space direction="vertical" size={4} style={{ maxWidth: 320 }}>
+      <Text type="secondary">Compárenlas por otro medio: si coinciden, nadie más puede leer la conversación.</Text>
+      <Text strong>Tu huella</Text>
+      <Fingerprint value={myFingerprint} />
+      {mine.length > 0 && <Text strong>Tus otros dispositivos</Text>}
+      {mine.map((f) => (
+        <Fingerprint key={f.fingerprint} value={f.fingerprint} trusted={f.trusted} />
+      ))}
+      <Text strong>{theirs.length > 1 ? `Huellas de ${peer}` : `Huella de ${peer}`}</Text>
+      {theirs.map((f) => (
+        <Fingerprint key={f.fingerprint} value={f.fingerprint} trusted={f.trusted} />
+      ))}
+    </Space>
+  );
+  if (hasUntrusted(peerKey) || (ownKey && hasUntrusted(ownKey))) {
+    const own = !hasUntrusted(peerKey);
+    return (
+      <Alert
+        type="warning"
+        showIcon
+        style={style}
+        message={own ? "Hay una clave nueva en tus dispositivos" : `Hay una clave nueva de ${peer}`}
+        description={
+          <>
+            {own
+              ? "Puede ser otro navegador tuyo o alguien que entró con tu cuenta."
+              : `Puede ser otro dispositivo de ${peer} o alguien haciéndose pasar por ${peer}.`}{" "}
+            Verificá la huella nueva antes de aceptarla; hasta entonces no se envían mensajes.{" "}
+            <Popover content={fingerprints} trigger="click">
+              <Typography.Link>Ver huellas</Typography.Link>
+            </Popover>
+          </>
+        }
+        action={
+          <Button size="small" onClick={onAccept}>
+            Aceptar nueva clave
+          </Button>
+        }
+      />
+    );
+  }
+  return (
+    <Popover content={fingerprints} trigger="click" placement="bottomLeft">
+      <Typography.Link type="success" style={{ display: "inline-block", ...style }}>
+        <LockOutlined /> Cifrado de extremo a extremo
+      </Typography.Link>
+    </Popover>
+  );
+};
+
+export default E2EStatus;
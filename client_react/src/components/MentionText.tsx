@@ -0,0 +1,37 @@
+import React from "react";
+import { Typography } from "antd";
+import { MENTION_PATTERN } from "../utils/socket";
+
+const { Text } = Typography;
+
+type Props = {
+  text: string;
+  // Menciones que validó el servidor: el resto de los "@algo" queda como texto
+  mentions?: string[];
+  me: string;
+};
+
+/**
+ * Texto de un mensaje con las menciones destacadas (las propias, resaltadas)
+ */
+const MentionText: React.FC<Props> = ({ text, mentions, me }) => {
+  if (!mentions?.length) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const m of text.matchAll(MENTION_PATTERN)) {
+    const name = m[2] ?? "";
+    if (!mentions.includes(name)) continue;
+    const start = m.index + (m[1] ?? "").length;
+    parts.push(text.slice(at, start));
+    parts.push(
+      <Text key={start} strong mark={name === me} style={name === me ? undefined : { color: "#69b1ff" }}>
+        @{name}
+      </Text>
+    );
+    at = start + name.length + 1;
+  }
+  parts.push(text.slice(at));
+  return <>{parts}</>;
+};
+
+export default MentionText;
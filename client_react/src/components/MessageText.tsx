@@ -0,0 +1,121 @@
+import React, { useMemo } from "react";
+import { Typography } from "antd";
+import { parseBlocks, parseInline, type Inline } from "../../../shared/markdown";
+import { highlight, type TokenType } from "../utils/highlight";
+import MentionText from "./MentionText";
+
+const { Text } = Typography;
+
+type Props = {
+  text: string;
+  mentions?: string[] | undefined;
+  me: string;
+  // Solo formato en línea (acciones /me): los bloques de código quedan como texto
+  inline?: boolean;
+};
+
+const TOKEN_COLOR: Record<TokenType, string | undefined> = {
+  plain: undefined,
+  comment: "#6a9955",
+  string: "#ce9178",
+  number: "#b5cea8",
+  keyword: "#569cd6",
+  literal: "#4fc1ff",
+  tag: "#569cd6",
+  added: "#73c991",
+  removed: "#f48771",
+};
+
+const codeStyle: React.CSSProperties = {
+  fontFamily: "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace",
+  fontSize: "0.9em",
+};
+
+/**
+ * Todo se arma con elementos de React: el texto nunca se inserta como HTML, así que cualquier
+ * etiqueta se ve tal cual. Los enlaces solo pueden ser http(s) (el parser no reconoce otros).
+ */
+const renderInline = (nodes: Inline[], mentions: string[] | undefined, me: string): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <MentionText key={i} text={node.text} mentions={mentions} me={me} />;
+      case "code":
+        return (
+          <Text key={i} code style={codeStyle}>
+            {node.text}
+          </Text>
+        );
+      case "strong":
+        return <strong key={i}>{renderInline(node.children, mentions, me)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children, mentions, me)}</em>;
+      case "link":
+        return (
+          <Typography.Link key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow ugc">
+            {node.href}
+          </Typography.Link>
+        );
+    }
+  });
+
+const CodeBlock: React.FC<{ code: string; lang?: string | undefined }> = ({ code, lang }) => {
+  const tokens = useMemo(() => highlight(code, lang), [code, lang]);
+  return (
+    <div
+      style={{
+        position: "relative",
+        margin: "4px 0",
+        background: "rgba(0,0,0,0.35)",
+        border: "1px solid rgba(255,255,255,0.08)",
+        borderRadius: 8,
+      }}
+    >
+      <Text
+        type="secondary"
+        copyable={{ text: code, tooltips: ["Copiar", "Copiado"] }}
+        style={{ position: "absolute", top: 4, right: 8, fontSize: 12 }}
+      >
+        {lang ?? ""}
+      </Text>
+      <pre style={{ ...codeStyle, margin: 0, padding: "8px 12px", overflowX: "auto", whiteSpace: "pre" }}>
+        <code>
+          {tokens.map((t, i) =>
+            TOKEN_COLOR[t.type] ? (
+              <span key={i} style={{ color: TOKEN_COLOR[t.type] }}>
+                {t.text}
+              </span>
+            ) : (
+              t.text
+            )
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+/**
+ * Texto de un mensaje con el Markdown permitido y las menciones destacadas
+ */
+const MessageText: React.FC<Props> = ({ text, mentions, me, inline = false }) => {
+  const blocks = useMemo(
+    () => (inline ? [{ type: "paragraph" as const, children: parseInline(text) }] : parseBlocks(text)),
+    [text, inline]
+  );
+  return (
+    <>
+      {blocks.map((b, i) =>
+        b.type === "code" ? (
+          <CodeBlock key={i} code={b.text} lang={b.lang} />
+        ) : (
+          <Text key={i} style={{ display: inline ? "inline" : "block", whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
+            {renderInline(b.children, mentions, me)}
+          </Text>
+        )
+      )}
+    </>
+  );
+};
+
+export default MessageText;
@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { Layout, Typography, Input, Button, List, Badge, Divider, Tooltip } from "antd";
+import { PlusOutlined, LogoutOutlined, NumberOutlined } from "@ant-design/icons";
+import type { RoomInfo } from "../utils/socket";
+import { getLimits, GLOBAL_ROOM, isValidName } from "../utils/socket";
+
+const { Sider } = Layout;
+const { Text } = Typography;
+
+type Props = {
+  rooms: RoomInfo[];
+  joined: string[];
+  activeRoom: string | null;
+  onSelect: (room: string) => void;
+  onLeave: (room: string) => void;
+  onCreate: (room: string) => void;
+};
+
+const RoomSidebar: React.FC<Props> = ({ rooms, joined, activeRoom, onSelect, onLeave, onCreate }) => {
+  const [name, setName] = useState("");
+  const clean = name.trim();
+  // Mismas reglas que el servidor (las de los usernames)
+  const limits = getLimits();
+  const isValid = isValidName(clean, limits);
+
+  const handleCreate = () => {
+    if (!isValid) return;
+    onCreate(clean);
+    setName("");
+  };
+
+  return (
+    <Sider
+      width={240}
+      breakpoint="md"
+      collapsedWidth={0}
+      style={{
+        background: "rgba(10,16,28,0.6)",
+        borderRight: "1px solid rgba(255,255,255,0.06)",
+        padding: 12,
+        overflowY: "auto",
+      }}
+    >
+      <Text strong>Salas</Text>
+      <Divider style={{ margin: "8px 0" }} />
+      <List
+        size="small"
+        dataSource={rooms}
+        locale={{ emptyText: "No hay salas" }}
+        renderItem={(room) => {
+          const isJoined = joined.includes(room.name);
+          const isActive = room.name === activeRoom;
+          return (
+            <List.Item
+              style={{
+                border: "none",
+                padding: "4px 8px",
+                borderRadius: 8,
+                cursor: "pointer",
+                background: isActive ? "rgba(37, 99, 235, 0.2)" : undefined,
+              }}
+              onClick={() => onSelect(room.name)}
+              actions={
+                isJoined && room.name !== GLOBAL_ROOM
+                  ? [
+                      <Tooltip key="leave" title="Salir de la sala">
+                        <Button
+                          type="text"
+                          size="small"
+                          danger
+                          icon={<LogoutOutlined />}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onLeave(room.name);
+                          }}
+                        />
+                      </Tooltip>,
+                    ]
+                  : undefined
+              }
+            >
+              <Text
+                type={isJoined ? undefined : "secondary"}
+                style={{ display: "flex", alignItems: "center", gap: 6, minWidth: 0 }}
+              >
+                <NumberOutlined />
+                <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {room.name}
+                </span>
+                <Badge count={room.members} size="small" color="rgba(255,255,255,0.15)" showZero />
+              </Text>
+            </List.Item>
+          );
+        }}
+      />
+      <Divider style={{ margin: "8px 0" }} />
+      <Input
+        size="small"
+        placeholder="Nueva sala"
+        value={name}
+        maxLength={limits.usernameMax}
+        status={clean && !isValid ? "error" : undefined}
+        onChange={(e) => setName(e.target.value)}
+        onPressEnter={handleCreate}
+        suffix={
+          <Button type="text" size="small" icon={<PlusOutlined />} disabled={!isValid} onClick={handleCreate} />
+        }
+      />
+    </Sider>
+  );
+};
+
+export default RoomSidebar;
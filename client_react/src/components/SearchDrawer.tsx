@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from "react";
+import { Drawer, Typography, Input, Button, List, Space, Select, DatePicker, Empty } from "antd";
+import type { ChatOutPayload, SearchFilters, SearchResults, SearchSnippet } from "../utils/socket";
+import { GLOBAL_ROOM, isConnected, onSearchResults, onServerError, searchMessages } from "../utils/socket";
+import BotTag from "./BotTag";
+
+const { Text } = Typography;
+
+type Props = {
+  open: boolean;
+  // Salas en las que estamos: solo se busca en ellas
+  rooms: string[];
+  isMobile: boolean;
+  onClose: () => void;
+  onOpen: (message: ChatOutPayload) => void;
+};
+
+const roomLabel = (room: string) => (room === GLOBAL_ROOM ? "Sala global" : `#${room}`);
+
+const fmtDateTime = (t: number) => new Date(t).toLocaleString([], { dateStyle: "short", timeStyle: "short" });
+
+// Texto del fragmento con las coincidencias resaltadas
+const Snippet: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  snippet.highlights.forEach(([start, end]) => {
+    if (start > at) parts.push(snippet.text.slice(at, start));
+    parts.push(
+      <Text key={start} mark>
+        {snippet.text.slice(start, end)}
+      </Text>
+    );
+    at = end;
+  });
+  parts.push(snippet.text.slice(at));
+  return <Text style={{ whiteSpace: "pre-wrap", wordBreak: "break-word" }}>{parts}</Text>;
+};
+
+/**
+ * Panel de búsqueda: texto completo con filtros de sala, autor y fechas.
+ * Los resultados quedan al cerrarlo, para volver a ellos.
+ */
+const SearchDrawer: React.FC<Props> = ({ open, rooms, isMobile, onClose, onOpen }) => {
+  const [q, setQ] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>({});
+  // Búsqueda en curso: "Cargar más" repite sus filtros aunque se hayan cambiado después
+  const [active, setActive] = useState<{ q: string; filters: SearchFilters } | null>(null);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isConnected()) return;
+    const unsubs = [
+      onSearchResults((r) => {
+        setLoading(false);
+        setResults((prev) => {
+          if (!r.before) return r;
+          // Página siguiente: solo si sigue siendo la misma búsqueda
+          if (!prev || prev.hits[prev.hits.length - 1]?.message.id !== r.before) return prev;
+          return { ...prev, hits: [...prev.hits, ...r.hits], hasMore: r.hasMore };
+        });
+      }),
+      onServerError(() => setLoading(false)),
+    ];
+    return () => unsubs.forEach((u) => u());
+  }, []);
+
+  const run = () => {
+    const t = q.trim();
+    if (!t) return;
+    setActive({ q: t, filters });
+    setLoading(true);
+    searchMessages(t, filters);
+  };
+
+  const loadMore = () => {
+    const last = results?.hits[results.hits.length - 1];
+    if (!active || !last) return;
+    setLoading(true);
+    searchMessages(active.q, active.filters, last.message.id);
+  };
+
+  const setFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K] | undefined) =>
+    setFilters((prev) => {
+      const next = { ...prev };
+      if (value === undefined) delete next[key];
+      else next[key] = value;
+      return next;
+    });
+
+  return (
+    <Drawer title="Buscar mensajes" open={open} onClose={onClose} width={isMobile ? "100%" : 420}>
+      <Space direction="vertical" style={{ width: "100%" }}>
+        <Input.Search
+          placeholder='Palabras o "frase exacta"'
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+          onSearch={run}
+          loading={loading && !results?.hits.length}
+          maxLength={200}
+          enterButton
+          allowClear
+        />
+        <Space.Compact style={{ width: "100%" }}>
+          <Select
+            style={{ width: "50%" }}
+            value={filters.room ?? ""}
+            onChange={(room) => setFilter("room", room || undefined)}
+            options={[{ value: "", label: "Todas mis salas" }, ...rooms.map((r) => ({ value: r, label: roomLabel(r) }))]}
+          />
+          <Input
+            style={{ width: "50%" }}
+            placeholder="Autor"
+            value={filters.author ?? ""}
+            onChange={(e) => setFilter("author", e.target.value.trim() || undefined)}
+            allowClear
+          />
+        </Space.Compact>
+        <DatePicker.RangePicker
+          style={{ width: "100%" }}
+          placeholder={["Desde", "Hasta"]}
+          allowEmpty={[true, true]}
+          onChange={(range) => {
+            setFilter("since", range?.[0]?.startOf("day").valueOf());
+            setFilter("until", range?.[1]?.endOf("day").valueOf());
+          }}
+        />
+      </Space>
+
+      {results && (
+        <List
+          style={{ marginTop: 12 }}
+          dataSource={results.hits}
+          locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="Sin resultados" /> }}
+          loadMore={
+            results.hasMore && (
+              <div style={{ textAlign: "center", marginTop: 8 }}>
+                <Button size="small" type="link" onClick={loadMore} loading={loading}>
+                  Cargar más resultados
+                </Button>
+              </div>
+            )
+          }
+          renderItem={({ message, snippet }) => (
+            <List.Item
+              style={{ border: "none", padding: "8px", borderRadius: 8, cursor: "pointer" }}
+              onClick={() => onOpen(message)}
+            >
+              <Space direction="vertical" size={2} style={{ width: "100%" }}>
+                <Text style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                  <Text strong style={{ wordBreak: "break-word" }}>{message.username}</Text>
+                  {message.bot && <BotTag />}
+                  <Text type="secondary">
+                    · {roomLabel(message.room)} · {fmtDateTime(message.at)}
+                  </Text>
+                </Text>
+                <Snippet snippet={snippet} />
+              </Space>
+            </List.Item>
+          )}
+        />
+      )}
+    </Drawer>
+  );
+};
+
+export default SearchDrawer;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from "react";
+import { Drawer, Typography, Button, List, Space, Tag, Popconfirm, Empty } from "antd";
+import { DesktopOutlined, MobileOutlined } from "@ant-design/icons";
+import type { DeviceInfo } from "../utils/socket";
+import { getDevice, isConnected, listSessions, onSessionsList, revokeSession } from "../utils/socket";
+
+const { Text } = Typography;
+
+type Props = {
+  open: boolean;
+  isMobile: boolean;
+  onClose: () => void;
+};
+
+const fmtDateTime = (t: number) => new Date(t).toLocaleString([], { dateStyle: "short", timeStyle: "short" });
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+const isMobileAgent = (agent: string) => /Android|iPhone|iPad|Mobile/.test(agent);
+
+// "Firefox en Linux" a partir del user-agent (o lo que mandó un cliente que no es navegador)
+const describeAgent = (agent: string) => {
+  if (!agent) return "Cliente desconocido";
+  const browser = BROWSERS.find(([re]) => re.test(agent))?.[1];
+  const system = SYSTEMS.find(([re]) => re.test(agent))?.[1];
+  if (!browser && !system) return agent.length > 40 ? `${agent.slice(0, 40)}…` : agent;
+  return [browser ?? "Navegador", system].filter(Boolean).join(" en ");
+};
+
+/**
+ * Dispositivos conectados con la misma cuenta: se puede cerrar cualquiera menos este
+ * (para este está "Salir")
+ */
+const SessionsDrawer: React.FC<Props> = ({ open, isMobile, onClose }) => {
+  const [sessions, setSessions] = useState<DeviceInfo[] | null>(null);
+  const current = getDevice();
+
+  useEffect(() => {
+    if (!isConnected()) return;
+    const off = onSessionsList(setSessions);
+    return () => {
+      off();
+    };
+  }, []);
+
+  // Al abrir se pide la lista; después llega sola cada vez que cambia
+  useEffect(() => {
+    if (open && isConnected()) listSessions();
+  }, [open]);
+
+  const others = sessions?.filter((s) => s.id !== current) ?? [];
+
+  return (
+    <Drawer
+      title="Sesiones abiertas"
+      open={open}
+      onClose={onClose}
+      width={isMobile ? "100%" : 420}
+      extra={
+        others.length > 0 && (
+          <Popconfirm
+            title="¿Cerrar las demás sesiones?"
+            okText="Cerrar"
+            cancelText="Cancelar"
+            onConfirm={() => revokeSession()}
+          >
+            <Button size="small" danger>
+              Cerrar las demás
+            </Button>
+          </Popconfirm>
+        )
+      }
+    >
+      <List
+        loading={sessions === null}
+        dataSource={[...(sessions ?? [])].sort((a, b) => Number(b.id === current) - Number(a.id === current))}
+        locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="Sin sesiones" /> }}
+        renderItem={(s) => (
+          <List.Item
+            style={{ border: "none", padding: "8px" }}
+            actions={
+              s.id === current
+                ? []
+                : [
+                    <Popconfirm
+                      key="revoke"
+                      title="¿Cerrar esta sesión?"
+                      okText="Cerrar"
+                      cancelText="Cancelar"
+                      onConfirm={() => revokeSession(s.id)}
+                    >
+                      <Button size="small" type="link" danger>
+                        Cerrar
+                      </Button>
+                    </Popconfirm>,
+                  ]
+            }
+          >
+            <List.Item.Meta
+              avatar={isMobileAgent(s.agent) ? <MobileOutlined /> : <DesktopOutlined />}
+              title={
+                <Space size={6} wrap>
+                  <Text strong>{describeAgent(s.agent)}</Text>
+                  {s.id === current && <Tag color="blue">Esta sesión</Tag>}
+                  {!s.online && <Tag>Reconectando</Tag>}
+                </Space>
+              }
+              description={
+                <Text type="secondary">
+                  {s.ip} · desde {fmtDateTime(s.connectedAt)}
+                </Text>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </Drawer>
+  );
+};
+
+export default SessionsDrawer;
@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import { Drawer, Typography, Input, Button, List, Space, Divider, Spin } from "antd";
+import { SendOutlined } from "@ant-design/icons";
+import type { ChatOutPayload } from "../utils/socket";
+import { getLimits } from "../utils/socket";
+import { fmtTime } from "../utils/format";
+import Attachments from "./Attachments";
+import BotTag from "./BotTag";
+import MessageText from "./MessageText";
+
+const { Text } = Typography;
+
+type Props = {
+  open: boolean;
+  // undefined mientras se espera la respuesta del servidor
+  parent?: ChatOutPayload;
+  replies: ChatOutPayload[];
+  me: string;
+  isMobile: boolean;
+  onClose: () => void;
+  onReply: (text: string) => void;
+  onJump: (id: string) => void;
+};
+
+const ThreadMessage: React.FC<{ m: ChatOutPayload; me: string }> = ({ m, me }) => (
+  <Space direction="vertical" size={2} style={{ width: "100%" }}>
+    <Text style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+      <Text strong style={{ wordBreak: "break-word" }}>{m.username}</Text>
+      {m.bot && <BotTag />}
+      <Text type="secondary">· {fmtTime(m.at)}</Text>
+      {m.editedAt && !m.deleted && <Text type="secondary">(editado)</Text>}
+    </Text>
+    {m.deleted ? (
+      <Text type="secondary" style={{ fontStyle: "italic" }}>
+        Mensaje eliminado
+      </Text>
+    ) : (
+      <>
+        {m.text && <MessageText text={m.text} mentions={m.mentions} me={me} />}
+        {m.attachments && <Attachments items={m.attachments} />}
+      </>
+    )}
+  </Space>
+);
+
+/**
+ * Panel lateral con un mensaje y todas sus respuestas
+ */
+const ThreadPanel: React.FC<Props> = ({ open, parent, replies, me, isMobile, onClose, onReply, onJump }) => {
+  const [text, setText] = useState("");
+
+  const handleReply = () => {
+    const t = text.trim();
+    if (!t) return;
+    onReply(t);
+    setText("");
+  };
+
+  return (
+    <Drawer title="Hilo" open={open} onClose={onClose} width={isMobile ? "100%" : 380} destroyOnHidden>
+      {!parent ? (
+        <Spin />
+      ) : (
+        <>
+          <Typography.Link onClick={() => onJump(parent.id)} style={{ display: "block" }}>
+            <ThreadMessage m={parent} me={me} />
+          </Typography.Link>
+          <Divider style={{ margin: "12px 0" }}>
+            {replies.length === 1 ? "1 respuesta" : `${replies.length} respuestas`}
+          </Divider>
+          <List
+            dataSource={replies}
+            locale={{ emptyText: "Todavía no hay respuestas" }}
+            renderItem={(m) => (
+              <List.Item style={{ border: "none", padding: "6px 0" }}>
+                <ThreadMessage m={m} me={me} />
+              </List.Item>
+            )}
+          />
+          {!parent.deleted && (
+            <Space.Compact style={{ width: "100%", marginTop: 12 }}>
+              <Input
+                placeholder="Responder en el hilo…"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onPressEnter={handleReply}
+                maxLength={getLimits().textMax}
+              />
+              <Button type="primary" icon={<SendOutlined />} onClick={handleReply} disabled={!text.trim()} />
+            </Space.Compact>
+          )}
+        </>
+      )}
+    </Drawer>
+  );
+};
+
+export default ThreadPanel;
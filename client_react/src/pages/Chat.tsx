@@ -5,31 +5,146 @@ import {
   Input,
   Button,
   Space,
-  List,
   Badge,
   Popover,
   Divider,
   notification,
   theme,
   Grid,
+  Tabs,
+  Select,
+  Popconfirm,
+  Tooltip,
+  Progress,
+  Spin,
 } from "antd";
-import { SendOutlined, UsergroupAddOutlined, LogoutOutlined } from "@ant-design/icons";
+import {
+  SendOutlined,
+  UsergroupAddOutlined,
+  LogoutOutlined,
+  ClockCircleOutlined,
+  ExclamationCircleOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  SmileOutlined,
+  RollbackOutlined,
+  CommentOutlined,
+  CloseOutlined,
+  PaperClipOutlined,
+  SearchOutlined,
+  LaptopOutlined,
+  BellOutlined,
+  LockOutlined,
+  UnlockOutlined,
+  EyeOutlined,
+  ArrowDownOutlined,
+} from "@ant-design/icons";
 import { useLocation, useNavigate } from "react-router-dom";
-import type { ChatOutPayload } from "../utils/socket";
+import { Virtuoso, type VirtuosoHandle } from "react-virtuoso";
+import type {
+  AttachmentInfo,
+  ChatOutPayload,
+  DeviceKey,
+  ModAction,
+  OutboxStatus,
+  PrivateOutPayload,
+  ReplyRef,
+  RoomInfo,
+  TypingTarget,
+  UserInfo,
+  UserStatus,
+} from "../utils/socket";
 import {
+  GLOBAL_ROOM,
+  getLimits,
   isConnected,
   getCurrentUsername,
   disconnect,
   sendMessage,
+  retryMessage,
+  onOutbox,
+  onThrottled,
+  sendPrivate,
+  sendPrivateCipher,
+  publishKey,
+  fetchPublicKeys,
+  onKeyChanged,
+  getDevice,
   requestUsers,
+  requestRooms,
+  createRoom,
+  joinRoom,
+  leaveRoom,
   quit,
   onChat,
+  onPrivate,
   onUsersList,
+  onRoomsList,
+  onRoomJoined,
+  onRoomLeft,
+  onHistoryPage,
+  fetchHistory,
+  fetchNewer,
+  fetchAround,
+  getWelcome,
   onUserJoined,
   onUserLeft,
   onServerError,
   onDisconnect,
+  onResumed,
+  onModAction,
+  runCommand,
+  onSystemMessage,
+  onUserRenamed,
+  startTyping,
+  stopTyping,
+  setStatus,
+  onTyping,
+  onPresence,
+  editMessage,
+  deleteMessage,
+  onMessageUpdated,
+  addReaction,
+  removeReaction,
+  onReactions,
+  fetchThread,
+  onThreadPage,
 } from "../utils/socket";
+import RoomSidebar from "../components/RoomSidebar";
+import ThreadPanel from "../components/ThreadPanel";
+import SearchDrawer from "../components/SearchDrawer";
+import SessionsDrawer from "../components/SessionsDrawer";
+import E2EStatus from "../components/E2EStatus";
+import MessageText from "../components/MessageText";
+import { formatProblem } from "../../../shared/markdown";
+import Attachments from "../components/Attachments";
+import BotTag from "../components/BotTag";
+import { fmtTime } from "../utils/format";
+import {
+  canNotify,
+  getNotifyLevel,
+  NOTIFY_LABEL,
+  requestNotifyPermission,
+  saveNotifyLevel,
+  showNotification,
+  type NotifyLevel,
+} from "../utils/notify";
+import { fmtSize, uploadFile } from "../utils/upload";
+import {
+  allowPlaintext,
+  decryptFrom,
+  encryptFor,
+  hasUntrusted,
+  isPinned,
+  isSupported as canEncrypt,
+  loadIdentity,
+  renameIdentity,
+  renamePeer,
+  resolvePeerKey,
+  trustPeerKey,
+  type Identity,
+  type PeerKey,
+} from "../utils/e2e";
 
 const { Header, Content, Footer } = Layout;
 const { Title, Text } = Typography;
@@ -37,14 +152,180 @@ const { Title, Text } = Typography;
 type RouteState = { username?: string };
 
 type Message =
-  | ({ kind: "chat" } & ChatOutPayload)
+  | {
+      kind: "chat";
+      id?: string;
+      username: string;
+      text: string;
+      at: number;
+      // Solo en los mensajes propios enviados en esta sesión
+      clientId?: string;
+      status?: OutboxStatus;
+      error?: string;
+      action?: boolean;
+      bot?: boolean;
+      mentions?: string[];
+      replyTo?: ReplyRef;
+      attachments?: AttachmentInfo[];
+      editedAt?: number;
+      deleted?: boolean;
+      reactions?: Record<string, string[]>;
+      // Privados: llegó cifrado (undecryptable si no se pudo descifrar); unencrypted: llegó
+      // en claro de un contacto que tiene huellas conocidas
+      encrypted?: boolean;
+      undecryptable?: boolean;
+      unencrypted?: boolean;
+    }
   | { kind: "system"; text: string; at: number };
 
-const fmtTime = (t: number) => {
-  const d = new Date(t);
-  const hh = d.getHours().toString().padStart(2, "0");
-  const mm = d.getMinutes().toString().padStart(2, "0");
-  return `${hh}:${mm}`;
+type ChatItem = Extract<Message, { kind: "chat" }>;
+
+const toChat = (m: ChatOutPayload): ChatItem => ({
+  kind: "chat",
+  id: m.id,
+  username: m.username,
+  text: m.text,
+  at: m.at,
+  ...(m.action ? { action: true } : {}),
+  ...(m.bot ? { bot: true } : {}),
+  ...(m.mentions ? { mentions: m.mentions } : {}),
+  ...(m.replyTo ? { replyTo: m.replyTo } : {}),
+  ...(m.attachments ? { attachments: m.attachments } : {}),
+  ...(m.editedAt ? { editedAt: m.editedAt } : {}),
+  ...(m.deleted ? { deleted: true } : {}),
+  ...(m.reactions ? { reactions: m.reactions } : {}),
+});
+
+const REACTION_CHOICES = ["👍", "❤️", "😂", "😮", "😢", "🎉", "🔥", "👀"];
+
+// Mismo recorte que hace el servidor al citar
+const REPLY_SNIPPET_LENGTH = 120;
+const replyRefOf = (m: ChatItem & { id: string }): ReplyRef => ({
+  id: m.id,
+  username: m.username,
+  text: m.text.length > REPLY_SNIPPET_LENGTH ? `${m.text.slice(0, REPLY_SNIPPET_LENGTH)}…` : m.text,
+});
+
+// Archivo subiéndose (o ya subido) para el próximo mensaje
+type PendingUpload = {
+  uid: string;
+  name: string;
+  percent: number;
+  attachment?: AttachmentInfo;
+  error?: string;
+};
+
+// Hilo abierto en el panel lateral (parent undefined mientras carga)
+type OpenThread = { id: string; room: string; parent?: ChatOutPayload; replies: ChatOutPayload[] };
+
+// Motivos de desconexión intencionales (no se reintenta la conexión)
+const FINAL_DISCONNECTS = ["io server disconnect", "io client disconnect"];
+
+// Pestañas: "room:<sala>" o "dm:<usuario>"
+const roomTab = (room: string) => `room:${room}`;
+const dmTab = (peer: string) => `dm:${peer}`;
+const roomOf = (tab: string) => (tab.startsWith("room:") ? tab.slice(5) : null);
+const peerOf = (tab: string) => (tab.startsWith("dm:") ? tab.slice(3) : null);
+const GLOBAL_TAB = roomTab(GLOBAL_ROOM);
+
+// Mensajes en memoria por sala: al pasarse se descartan los del otro extremo y se vuelven a pedir
+// al servidor al desplazarse hasta ahí. Los privados no tienen historial en el servidor: de cada
+// conversación quedan los últimos ROOM_WINDOW y los anteriores se pierden
+const ROOM_WINDOW = 500;
+
+const appendWindowed = (list: Message[], msg: Message) => [...list, msg].slice(-ROOM_WINDOW);
+
+// Clave estable de cada fila (el pendiente conserva su clientId al confirmarse)
+const messageKey = (m: Message) =>
+  m.kind === "chat" ? m.clientId ?? m.id ?? `${m.username}:${m.at}` : `${m.at}:${m.text}`;
+
+// Índice del primer mensaje al empezar: queda lejos del 0 para poder agregar arriba
+const FIRST_INDEX = 1_000_000;
+
+/**
+ * Índice del primer mensaje para la lista virtual: baja al agregar mensajes arriba y sube al recortarlos,
+ * así cada uno conserva el suyo y la vista no salta. Si cambió todo (otra pestaña, un tramo viejo)
+ * vuelve a empezar y cambia `generation` para montar la lista de nuevo, abajo de todo.
+ */
+const useFirstIndex = (tab: string, items: Message[]) => {
+  const prevRef = useRef({ tab, keys: [] as string[], first: FIRST_INDEX, generation: 0 });
+  return useMemo(() => {
+    const prev = prevRef.current;
+    const keys = items.map(messageKey);
+    let { first, generation } = prev;
+    if (prev.tab !== tab || keys[0] !== prev.keys[0]) {
+      const added = prev.tab === tab && prev.keys[0] !== undefined ? keys.indexOf(prev.keys[0]) : -1;
+      const removed = prev.tab === tab && keys[0] !== undefined ? prev.keys.indexOf(keys[0]) : -1;
+      if (added > 0) first -= added;
+      else if (removed > 0) first += removed;
+      else {
+        first = FIRST_INDEX;
+        generation += 1;
+      }
+    }
+    prevRef.current = { tab, keys, first, generation };
+    return { first, generation };
+  }, [tab, items]);
+};
+
+// Página pedida al servidor en cada punta de la lista, para mostrar que está cargando
+type ListContext = { loadingOlder: boolean; loadingNewer: boolean };
+
+const PageSpinner: React.FC<{ loading: boolean }> = ({ loading }) =>
+  loading ? (
+    <div style={{ textAlign: "center", padding: 8 }}>
+      <Spin size="small" />
+    </div>
+  ) : null;
+const ListHeader: React.FC<{ context: ListContext }> = ({ context }) => <PageSpinner loading={context.loadingOlder} />;
+const ListFooter: React.FC<{ context: ListContext }> = ({ context }) => <PageSpinner loading={context.loadingNewer} />;
+
+// Errores que terminan la sesión: se muestran con la notificación global para que sigan visibles en el login
+const EXPULSIONS = ["KICKED", "BANNED", "SESSION_REVOKED"];
+
+// Indicador de escritura: se repite como mucho cada TYPING_THROTTLE_MS y se corta tras TYPING_IDLE_MS sin teclear
+const TYPING_THROTTLE_MS = 3000;
+const TYPING_IDLE_MS = 4000;
+// Sin actividad durante este tiempo el estado pasa solo a "ausente"
+const AWAY_AFTER_MS = 5 * 60_000;
+const ACTIVITY_EVENTS = ["mousemove", "keydown", "pointerdown", "wheel", "touchstart"];
+
+const STATUS_LABEL: Record<UserStatus, string> = { online: "En línea", away: "Ausente", busy: "Ocupado" };
+const STATUS_BADGE: Record<UserStatus, "success" | "warning" | "error"> = {
+  online: "success",
+  away: "warning",
+  busy: "error",
+};
+
+const typingTargetOf = (tab: string): TypingTarget => {
+  const room = roomOf(tab);
+  return room !== null ? { room } : { to: peerOf(tab) ?? "" };
+};
+
+// Enter envía; Shift+Enter (o Enter mientras se compone con un IME) agrega un salto de línea
+const isSendKey = (e: React.KeyboardEvent) => e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing;
+
+const typingLine = (names: string[]) => {
+  if (names.length === 1) return `${names[0]} está escribiendo…`;
+  if (names.length === 2) return `${names[0]} y ${names[1]} están escribiendo…`;
+  return "Varias personas están escribiendo…";
+};
+
+
+const describeModAction = (a: ModAction) => {
+  const until = a.until ? ` hasta el ${new Date(a.until).toLocaleString()}` : "";
+  switch (a.action) {
+    case "kick":
+      return `${a.by} expulsó a ${a.target}`;
+    case "ban":
+      return `${a.by} baneó a ${a.target}${until}`;
+    case "unban":
+      return `${a.by} levantó el ban de ${a.target}`;
+    case "mute":
+      return `${a.by} silenció a ${a.target}${until}`;
+    case "unmute":
+      return `${a.by} quitó el silencio a ${a.target}`;
+  }
 };
 
 const Chat: React.FC = () => {
@@ -52,56 +333,746 @@ const Chat: React.FC = () => {
   const { state } = useLocation() as { state?: RouteState };
   const locationUsername = state?.username;
   const storedUsername = sessionStorage.getItem("chat.username") || "";
-  const username = useMemo(
-    () => locationUsername || storedUsername || getCurrentUsername(),
-    [locationUsername, storedUsername]
-  );
+  // Cambia con /nick
+  const [username, setUsername] = useState(() => locationUsername || storedUsername || getCurrentUsername());
+  const usernameRef = useRef(username);
+  usernameRef.current = username;
 
   const [api, contextHolder] = notification.useNotification();
+  // Qué notificar con la pestaña en segundo plano
+  const [notifyLevel, setNotifyLevel] = useState<NotifyLevel>(() => getNotifyLevel(username));
+  const notifyLevelRef = useRef(notifyLevel);
+  notifyLevelRef.current = notifyLevel;
+  const baseTitleRef = useRef(document.title);
   const { token } = theme.useToken();
   const screens = Grid.useBreakpoint();
   const isMobile = !screens.md; // < md = mobile
 
-  const [users, setUsers] = useState<string[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [rooms, setRooms] = useState<RoomInfo[]>([]);
+  const [joined, setJoined] = useState<string[]>([GLOBAL_ROOM]);
+  const [roomUsers, setRoomUsers] = useState<Record<string, UserInfo[]>>({});
+  const [roomMessages, setRoomMessages] = useState<Record<string, Message[]>>(() => ({
+    [GLOBAL_ROOM]: (getWelcome()?.history ?? []).map(toChat),
+  }));
+  // Si quedan mensajes anteriores por pedir en cada sala
+  const [hasOlder, setHasOlder] = useState<Record<string, boolean>>(() => ({
+    [GLOBAL_ROOM]: (getWelcome()?.history.length ?? 0) > 0,
+  }));
+  const [dms, setDms] = useState<Record<string, Message[]>>({});
+  const [unread, setUnread] = useState<Record<string, number>>({});
+  const [activeTab, setActiveTab] = useState(GLOBAL_TAB);
   const [text, setText] = useState("");
+  // Vista previa del formato del mensaje en preparación
+  const [preview, setPreview] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
+  // Rate limiting: hasta cuándo no conviene enviar, y segundos restantes para la cuenta regresiva
+  const [throttledUntil, setThrottledUntil] = useState(0);
+  const [throttleLeft, setThrottleLeft] = useState(0);
+  // Quién está escribiendo en cada pestaña
+  const [typing, setTyping] = useState<Record<string, string[]>>({});
+  const [myStatus, setMyStatus] = useState<UserStatus>("online");
+  // Mensaje propio que se está editando
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const isModerator = ["admin", "moderator"].includes(getWelcome()?.role ?? "user");
+  // Respuesta en preparación (solo vale para la sala donde se eligió)
+  const [replying, setReplying] = useState<{ room: string; ref: ReplyRef } | null>(null);
+  const [thread, setThread] = useState<OpenThread | null>(null);
+  // Mensaje resaltado tras saltar a él
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  // Salas que muestran un tramo viejo del historial (tras saltar a un resultado) y no llegan al presente
+  const [hasNewer, setHasNewer] = useState<Record<string, boolean>>({});
+  // Mensaje al que saltar cuando esté cargado; `requested` una vez pedido su contexto al servidor
+  const [pendingJump, setPendingJump] = useState<{ id: string; room: string; requested: boolean } | null>(null);
+  // Cifrado de los privados: el par propio (null si no se puede cifrar) y las claves de cada contacto
+  // (y las de los otros dispositivos propios, con el nombre propio). undefined mientras se carga
+  const [identity, setIdentity] = useState<Identity | null | undefined>(() => (canEncrypt() ? undefined : null));
+  const [peerKeys, setPeerKeys] = useState<Record<string, PeerKey>>({});
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const uploading = uploads.some((u) => !u.attachment && !u.error);
+  const readyAttachments = uploads.flatMap((u) => (u.attachment ? [u.attachment] : []));
+
+  const virtuosoRef = useRef<VirtuosoHandle | null>(null);
+  // Si la lista está abajo de todo: solo así sigue a los mensajes que llegan
+  const [atBottom, setAtBottom] = useState(true);
+  const atBottomRef = useRef(atBottom);
+  atBottomRef.current = atBottom;
+  // Mensajes llegados a la conversación abierta mientras se leía más arriba
+  const [unseen, setUnseen] = useState(0);
+  // Tras enviar se baja al final aunque se estuviera leyendo más arriba
+  const followNextRef = useRef(false);
+  // Página pedida en cada sala (una a la vez), hasta que llega
+  const [paging, setPaging] = useState<Record<string, "older" | "newer">>({});
+  // Salas que, si pasan de ROOM_WINDOW, se recortan por el final (por defecto, por el principio)
+  const trimEndRef = useRef(new Set<string>());
+  // Mismo dato que hasNewer, para los listeners del socket
+  const detachedRef = useRef(new Set<string>());
+  const activeTabRef = useRef(activeTab);
+  activeTabRef.current = activeTab;
+  // Salas pedidas desde acá: al entrar se abre su pestaña (las que entra otro dispositivo propio, no)
+  const joinRequestedRef = useRef(new Set<string>());
+  // Último typing:start enviado y temporizador para cortarlo
+  const typingSentRef = useRef<{ tab: string; at: number } | null>(null);
+  const typingIdleRef = useRef<number | null>(null);
+  const myStatusRef = useRef(myStatus);
+  myStatusRef.current = myStatus;
+  // true si el "ausente" actual lo puso la inactividad (y no el usuario)
+  const autoAwayRef = useRef(false);
+  const identityRef = useRef(identity);
+  identityRef.current = identity;
+  // Claves de los contactos al día para los listeners (peerKeys es lo que se muestra)
+  const peerKeysRef = useRef(new Map<string, PeerKey>());
+  // Cola por contacto: claves y mensajes se procesan en el orden en que llegaron
+  const dmQueueRef = useRef(new Map<string, Promise<unknown>>());
 
-  const listRef = useRef<HTMLDivElement | null>(null);
+  const activeRoom = roomOf(activeTab);
+  const activePeer = peerOf(activeTab);
+  const visibleMessages = useMemo(
+    () => (activePeer ? dms[activePeer] ?? [] : roomMessages[activeRoom ?? GLOBAL_ROOM] ?? []),
+    [activePeer, activeRoom, dms, roomMessages]
+  );
+  const listIndex = useFirstIndex(activeTab, visibleMessages);
+  // En una conversación privada mostramos los conectados (sala global)
+  const users = useMemo(() => roomUsers[activeRoom ?? GLOBAL_ROOM] ?? [], [roomUsers, activeRoom]);
+
+  // Con la pestaña en segundo plano también cuenta lo de la conversación abierta
+  const bumpUnread = (tab: string) => {
+    if (activeTabRef.current !== tab || document.hidden) setUnread((prev) => ({ ...prev, [tab]: (prev[tab] ?? 0) + 1 }));
+  };
+
+  // Solo en segundo plano y según el nivel elegido (los privados cuentan como mención)
+  const notifyIfHidden = (tab: string, mentioned: boolean, title: string, body: string) => {
+    const level = notifyLevelRef.current;
+    if (!document.hidden || level === "none" || (level === "mentions" && !mentioned)) return;
+    showNotification(title, body, tab, () => setActiveTab(tab));
+  };
+
+  const appendRoom = (room: string, msg: Message) =>
+    setRoomMessages((prev) => ({ ...prev, [room]: [...(prev[room] ?? []), msg] }));
+
+  // Agrega mensajes que todavía no estén en la sala (por id), en orden cronológico
+  const mergeRoom = (room: string, incoming: ChatOutPayload[]) =>
+    setRoomMessages((prev) => {
+      const current = prev[room] ?? [];
+      const known = new Set(current.map((m) => (m.kind === "chat" ? m.id : undefined)));
+      const fresh = incoming.filter((m) => !known.has(m.id)).map(toChat);
+      if (fresh.length === 0) return prev;
+      return { ...prev, [room]: [...current, ...fresh].sort((a, b) => a.at - b.at) };
+    });
+
+  // Ediciones y borrados: reemplaza en su lugar los mensajes que ya están en la sala
+  const updateRoom = (room: string, updated: ChatOutPayload[]) =>
+    setRoomMessages((prev) => {
+      const current = prev[room];
+      if (!current) return prev;
+      const byId = new Map(updated.map((m) => [m.id, m]));
+      return {
+        ...prev,
+        [room]: current.map((m) => {
+          const next = m.kind === "chat" && m.id ? byId.get(m.id) : undefined;
+          return next && m.kind === "chat" ? { ...m, ...toChat(next), reactions: next.reactions } : m;
+        }),
+      };
+    });
+
+  const setDetached = (room: string, on: boolean) => {
+    if (on) detachedRef.current.add(room);
+    else detachedRef.current.delete(room);
+    setHasNewer((prev) => (!!prev[room] === on ? prev : { ...prev, [room]: on }));
+  };
+
+  // Deja de mostrar el tramo viejo: se queda solo con lo pendiente de envío y pide la última página
+  const returnToPresent = (room: string) => {
+    setDetached(room, false);
+    setRoomMessages((prev) => ({
+      ...prev,
+      [room]: (prev[room] ?? []).filter((m) => m.kind === "chat" && !m.id),
+    }));
+    fetchHistory(room);
+  };
+
+  const donePaging = (room: string) =>
+    setPaging((prev) => (prev[room] ? Object.fromEntries(Object.entries(prev).filter(([r]) => r !== room)) : prev));
+
+  const appendDm = (peer: string, msg: Message) =>
+    setDms((prev) => ({ ...prev, [peer]: appendWindowed(prev[peer] ?? [], msg) }));
+
+  const enqueueDm = <T,>(peer: string, task: () => Promise<T>) => {
+    const next = (dmQueueRef.current.get(peer) ?? Promise.resolve()).then(task);
+    dmQueueRef.current.set(peer, next.catch(() => undefined));
+    return next;
+  };
+
+  const setPeerKey = (peer: string, key: PeerKey) => {
+    peerKeysRef.current.set(peer, key);
+    setPeerKeys((prev) => ({ ...prev, [peer]: key }));
+  };
+
+  // Primeras huellas de un nombre: se aceptan solas; las que aparezcan después hay que aceptarlas a mano
+  const applyPeerKey = async (peer: string, keys: DeviceKey[]) => {
+    const own = peer === usernameRef.current ? identityRef.current?.fingerprint : undefined;
+    setPeerKey(peer, await resolvePeerKey(usernameRef.current, peer, keys, own));
+  };
+
+  // Fuera de la cola: la usan las tareas encoladas. Con `device` se vuelven a pedir si no está ese dispositivo
+  const loadPeerKey = async (peer: string, device?: string) => {
+    const current = peerKeysRef.current.get(peer);
+    if (current && (!device || current.devices.some((d) => d.device === device))) return current;
+    await applyPeerKey(peer, await fetchPublicKeys(peer));
+    return peerKeysRef.current.get(peer) ?? { devices: [] };
+  };
+
+  const peerKeyOf = (peer: string) => enqueueDm(peer, () => loadPeerKey(peer));
+
+  // Se aceptan juntas las nuevas del contacto y las de los dispositivos propios
+  const acceptPeerKey = (peer: string) => {
+    for (const name of [peer, usernameRef.current]) {
+      const key = peerKeysRef.current.get(name);
+      if (key) setPeerKey(name, trustPeerKey(usernameRef.current, name, key));
+    }
+  };
+
+  // Enviar en claro a quien antes tenía clave hay que confirmarlo (como una clave nueva)
+  const allowPlaintextTo = (peer: string) => {
+    const key = peerKeysRef.current.get(peer);
+    if (key) setPeerKey(peer, allowPlaintext(key));
+  };
+
+  // Cifra para cada dispositivo del contacto y para los propios (así todos ven la conversación);
+  // si el contacto no tiene clave (o este navegador no puede cifrar) va en claro
+  const sendDm = async (peer: string, t: string, action = false) => {
+    followNextRef.current = true;
+    const me = identityRef.current;
+    const key = me ? await peerKeyOf(peer) : null;
+    if (key?.missing) {
+      throw new Error(`${peer} ya no tiene una clave publicada: confirmá que querés enviarle sin cifrar.`);
+    }
+    if (!me || !key?.devices.length) {
+      if (action) runCommand(`/me ${t}`, { to: peer });
+      else sendPrivate(peer, t);
+      return;
+    }
+    const own = await peerKeyOf(usernameRef.current);
+    if (hasUntrusted(key) || hasUntrusted(own)) {
+      throw new Error(`Hay una clave nueva en la conversación con ${peer}: verificala y aceptala antes de enviar.`);
+    }
+    const device = getDevice();
+    const targets = new Map<string, DeviceKey>([...key.devices, ...own.devices].map((d) => [d.device, d]));
+    if (device) targets.set(device, { device, publicKey: me.publicKey });
+    const plain = { text: t, ...(action ? { action } : {}) };
+    sendPrivateCipher(peer, await Promise.all(Array.from(targets.values(), (d) => encryptFor(usernameRef.current, d, plain))));
+  };
+
+  const stopOwnTyping = () => {
+    const sent = typingSentRef.current;
+    if (typingIdleRef.current !== null) clearTimeout(typingIdleRef.current);
+    typingIdleRef.current = null;
+    typingSentRef.current = null;
+    if (sent && isConnected()) stopTyping(typingTargetOf(sent.tab));
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    // Los comandos no cuentan como escribir
+    if (!value.trim() || value.startsWith("/")) return stopOwnTyping();
+    if (typingSentRef.current && typingSentRef.current.tab !== activeTab) stopOwnTyping();
+    const now = Date.now();
+    if (!typingSentRef.current || now - typingSentRef.current.at >= TYPING_THROTTLE_MS) {
+      startTyping(typingTargetOf(activeTab));
+      typingSentRef.current = { tab: activeTab, at: now };
+    }
+    if (typingIdleRef.current !== null) clearTimeout(typingIdleRef.current);
+    typingIdleRef.current = window.setTimeout(stopOwnTyping, TYPING_IDLE_MS);
+  };
+
+  const changeNotifyLevel = (level: NotifyLevel) => {
+    setNotifyLevel(level);
+    saveNotifyLevel(usernameRef.current, level);
+    if (level === "none") return;
+    void requestNotifyPermission().then((granted) => {
+      if (!granted) api.warning({ message: "El navegador no permite notificaciones para este sitio" });
+    });
+  };
+
+  const changeStatus = (status: UserStatus) => {
+    autoAwayRef.current = false;
+    setMyStatus(status);
+    setStatus(status);
+  };
+
+  const openDm = (peer: string) => {
+    setDms((prev) => (prev[peer] ? prev : { ...prev, [peer]: [] }));
+    setActiveTab(dmTab(peer));
+  };
+
+  const closeDm = (peer: string) => {
+    setDms((prev) => {
+      const next = { ...prev };
+      delete next[peer];
+      return next;
+    });
+    setUnread((prev) => {
+      const next = { ...prev };
+      delete next[dmTab(peer)];
+      return next;
+    });
+    if (activeTabRef.current === dmTab(peer)) setActiveTab(GLOBAL_TAB);
+  };
+
+  const selectRoom = (room: string) => {
+    if (joined.includes(room)) {
+      setActiveTab(roomTab(room));
+      return;
+    }
+    joinRequestedRef.current.add(room);
+    joinRoom(room);
+  };
+
+  const addRoom = (room: string) => {
+    joinRequestedRef.current.add(room);
+    createRoom(room);
+  };
 
   useEffect(() => {
     if (!username || !isConnected()) navigate("/", { replace: true });
   }, [username, navigate]);
 
+  // Claves del contacto (y de los dispositivos propios) al abrir su conversación
+  useEffect(() => {
+    if (!activePeer || !identity) return;
+    for (const name of [activePeer, usernameRef.current]) if (!peerKeysRef.current.has(name)) void peerKeyOf(name);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activePeer, identity]);
+
+  // Par propio (se genera la primera vez) y publicación de la clave pública
+  useEffect(() => {
+    if (!canEncrypt() || !isConnected()) return;
+    let cancelled = false;
+    loadIdentity(username)
+      .then((id) => {
+        if (cancelled) return;
+        setIdentity(id);
+        publishKey(id.publicKey);
+      })
+      .catch((e: unknown) => {
+        console.error("[e2e] no se pudo cargar la clave", e);
+        if (!cancelled) setIdentity(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  // Ventana acotada: lo viejo se vuelve a pedir con hasOlder y lo nuevo queda como tramo separado del presente
+  useEffect(() => {
+    const over = Object.keys(roomMessages).filter((room) => (roomMessages[room]?.length ?? 0) > ROOM_WINDOW);
+    const fromEnd = new Set(over.filter((room) => trimEndRef.current.has(room)));
+    trimEndRef.current.clear();
+    if (over.length === 0) return;
+    setRoomMessages((prev) => {
+      const next = { ...prev };
+      for (const room of over) {
+        const list = prev[room] ?? [];
+        next[room] = fromEnd.has(room) ? list.slice(0, ROOM_WINDOW) : list.slice(-ROOM_WINDOW);
+      }
+      return next;
+    });
+    for (const room of over) {
+      if (fromEnd.has(room)) setDetached(room, true);
+      else setHasOlder((prev) => ({ ...prev, [room]: true }));
+    }
+  }, [roomMessages]);
+
+  useEffect(() => {
+    if (throttledUntil <= Date.now()) return;
+    const tick = () => {
+      const left = Math.max(0, Math.ceil((throttledUntil - Date.now()) / 1000));
+      setThrottleLeft(left);
+      if (left === 0) clearInterval(timer);
+    };
+    const timer = setInterval(tick, 250);
+    tick();
+    return () => clearInterval(timer);
+  }, [throttledUntil]);
+
+  // Al llegar arriba de todo (o abajo, en un tramo viejo) se pide la página siguiente
+  const loadOlder = () => {
+    if (!activeRoom || !hasOlder[activeRoom] || paging[activeRoom]) return;
+    setPaging((prev) => ({ ...prev, [activeRoom]: "older" }));
+    const first = (roomMessages[activeRoom] ?? []).find((m) => m.kind === "chat" && m.id);
+    fetchHistory(activeRoom, first?.kind === "chat" ? first.id : undefined);
+  };
+
+  const loadNewer = () => {
+    if (!activeRoom || !hasNewer[activeRoom] || paging[activeRoom]) return;
+    const ids = (roomMessages[activeRoom] ?? []).flatMap((m) => (m.kind === "chat" && m.id ? [m.id] : []));
+    const last = ids[ids.length - 1];
+    if (!last) return;
+    setPaging((prev) => ({ ...prev, [activeRoom]: "newer" }));
+    fetchNewer(activeRoom, last);
+  };
+
+  // Baja al final; desde un tramo viejo vuelve al presente
+  const goToBottom = () => {
+    if (activeRoom && hasNewer[activeRoom]) returnToPresent(activeRoom);
+    else virtuosoRef.current?.scrollToIndex({ index: "LAST", behavior: "smooth" });
+  };
+
+  const onAtBottom = (bottom: boolean) => {
+    setAtBottom(bottom);
+    if (bottom) setUnseen(0);
+  };
+
+  useEffect(() => {
+    setUnread((prev) => (prev[activeTab] ? { ...prev, [activeTab]: 0 } : prev));
+    setUnseen(0);
+  }, [activeTab]);
+
+  // Al volver a la pestaña, la conversación abierta queda leída
+  useEffect(() => {
+    const onVisibility = () => {
+      if (document.hidden) return;
+      const tab = activeTabRef.current;
+      setUnread((prev) => (prev[tab] ? { ...prev, [tab]: 0 } : prev));
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, []);
+
+  // Total sin leer en el título, visible desde otras pestañas
   useEffect(() => {
-    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
-  }, [messages]);
+    const base = baseTitleRef.current;
+    const total = Object.values(unread).reduce((sum, n) => sum + n, 0);
+    document.title = total > 0 ? `(${total}) ${base}` : base;
+    return () => {
+      document.title = base;
+    };
+  }, [unread]);
+
+  // Ausente automático por inactividad (solo si estaba "en línea"); vuelve al detectar actividad
+  useEffect(() => {
+    let lastActivity = Date.now();
+    const onActivity = () => {
+      lastActivity = Date.now();
+      if (!autoAwayRef.current || !isConnected()) return;
+      autoAwayRef.current = false;
+      setMyStatus("online");
+      setStatus("online");
+    };
+    const timer = setInterval(() => {
+      if (myStatusRef.current !== "online" || Date.now() - lastActivity < AWAY_AFTER_MS || !isConnected()) return;
+      autoAwayRef.current = true;
+      setMyStatus("away");
+      setStatus("away");
+    }, 15_000);
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, onActivity, { passive: true }));
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, onActivity));
+    };
+  }, []);
 
   useEffect(() => {
     if (!isConnected()) return;
     const unsubs: Array<() => void> = [];
 
     unsubs.push(
-      onChat((msg) => setMessages((m) => [...m, { kind: "chat", ...msg }])),
-      onUsersList((u) => setUsers(u)),
-      onUserJoined((u) => {
-        setUsers((prev) => (prev.includes(u) ? prev : [...prev, u]));
-        setMessages((m) => [...m, { kind: "system", text: `${u} se unió`, at: Date.now() }]);
+      onChat((msg) => {
+        // Mirando un tramo viejo: el mensaje llega con la página siguiente
+        if (!detachedRef.current.has(msg.room)) {
+          // Leyendo más arriba con la ventana llena: se descarta lo nuevo y no lo que se está leyendo
+          if (activeTabRef.current === roomTab(msg.room) && !atBottomRef.current) trimEndRef.current.add(msg.room);
+          setRoomMessages((prev) => {
+            const current = prev[msg.room] ?? [];
+            // Eco de un mensaje propio: reemplaza al pendiente en su lugar
+            const idx = msg.clientId
+              ? current.findIndex((m) => m.kind === "chat" && m.clientId === msg.clientId)
+              : -1;
+            if (idx === -1) return { ...prev, [msg.room]: [...current, toChat(msg)] };
+            const next = [...current];
+            next[idx] = { ...toChat(msg), clientId: msg.clientId, status: "sent" };
+            return { ...prev, [msg.room]: next };
+          });
+        }
+        if (msg.username !== usernameRef.current) {
+          const tab = roomTab(msg.room);
+          const where = msg.room === GLOBAL_ROOM ? "la sala global" : `#${msg.room}`;
+          const mentioned = msg.mentions?.includes(usernameRef.current) ?? false;
+          bumpUnread(tab);
+          if (activeTabRef.current === tab && !atBottomRef.current) setUnseen((n) => n + 1);
+          notifyIfHidden(
+            tab,
+            mentioned,
+            mentioned ? `${msg.username} te mencionó en ${where}` : `${msg.username} en ${where}`,
+            msg.text || "Adjuntó un archivo"
+          );
+        }
+        if (msg.replyTo) {
+          const parentId = msg.replyTo.id;
+          setThread((prev) =>
+            prev?.parent && prev.id === parentId && !prev.replies.some((r) => r.id === msg.id)
+              ? { ...prev, replies: [...prev.replies, msg] }
+              : prev
+          );
+        }
+      }),
+      onMessageUpdated((m) => {
+        updateRoom(m.room, [m]);
+        setThread((prev) => {
+          if (!prev?.parent) return prev;
+          if (prev.parent.id === m.id) return { ...prev, parent: m };
+          return { ...prev, replies: prev.replies.map((r) => (r.id === m.id ? m : r)) };
+        });
+      }),
+      onThreadPage((page) =>
+        setThread((prev) => (prev?.id === page.id ? { ...prev, parent: page.parent, replies: page.replies } : prev))
+      ),
+      onReactions((u) =>
+        setRoomMessages((prev) => {
+          const current = prev[u.room];
+          if (!current) return prev;
+          return {
+            ...prev,
+            [u.room]: current.map((m) => (m.kind === "chat" && m.id === u.id ? { ...m, reactions: u.reactions } : m)),
+          };
+        })
+      ),
+      onOutbox((e) =>
+        setRoomMessages((prev) => {
+          const current = prev[e.room] ?? [];
+          const idx = current.findIndex((m) => m.kind === "chat" && m.clientId === e.clientId);
+          const item = current[idx];
+          if (!item || item.kind !== "chat") return prev;
+          const next = [...current];
+          next[idx] = { ...item, status: e.status, ...(e.id ? { id: e.id } : {}), ...(e.error ? { error: e.error } : {}) };
+          return { ...prev, [e.room]: next };
+        })
+      ),
+      onHistoryPage((page) => {
+        donePaging(page.room);
+        if (page.around) {
+          // Salto a un mensaje viejo: el tramo reemplaza lo que había (lo pendiente queda si llega al presente)
+          setDetached(page.room, !!page.hasNewer);
+          setRoomMessages((prev) => {
+            const pending = page.hasNewer ? [] : (prev[page.room] ?? []).filter((m) => m.kind === "chat" && !m.id);
+            return { ...prev, [page.room]: [...page.messages.map(toChat), ...pending] };
+          });
+          setHasOlder((prev) => ({ ...prev, [page.room]: page.hasMore }));
+          return;
+        }
+        if (page.after) {
+          if (!detachedRef.current.has(page.room)) return;
+          setDetached(page.room, !!page.hasNewer);
+          setRoomMessages((prev) => {
+            const current = prev[page.room] ?? [];
+            const known = new Set(current.map((m) => (m.kind === "chat" ? m.id : undefined)));
+            return { ...prev, [page.room]: [...current, ...page.messages.filter((m) => !known.has(m.id)).map(toChat)] };
+          });
+          return;
+        }
+        if (page.before) trimEndRef.current.add(page.room);
+        setRoomMessages((prev) => {
+          const current = prev[page.room] ?? [];
+          const known = new Set(current.map((m) => (m.kind === "chat" ? m.id : undefined)));
+          const older = page.messages.filter((m) => !known.has(m.id)).map(toChat);
+          return { ...prev, [page.room]: [...older, ...current] };
+        });
+        setHasOlder((prev) => ({ ...prev, [page.room]: page.hasMore }));
+      }),
+      onPrivate((msg: PrivateOutPayload) => {
+        const peer = msg.from === usernameRef.current ? msg.to : msg.from;
+        const { ciphers, device } = msg;
+        void enqueueDm(peer, async () => {
+          let item: ChatItem = {
+            kind: "chat",
+            username: msg.from,
+            text: msg.text,
+            at: msg.at,
+            ...(msg.action ? { action: true } : {}),
+          };
+          if (ciphers) {
+            // El cifrado para este dispositivo, con la clave del que lo envió (también en el eco de lo propio:
+            // ECDH es simétrico)
+            try {
+              const cipher = ciphers.find((c) => c.device === getDevice());
+              const sender = (await loadPeerKey(msg.from, device)).devices.find((d) => d.device === device);
+              if (!cipher || !sender) throw new Error("Sin clave para este dispositivo");
+              const plain = await decryptFrom(usernameRef.current, sender.publicKey, cipher);
+              item = { ...item, text: plain.text, encrypted: true, ...(plain.action ? { action: true } : {}) };
+            } catch {
+              item = { ...item, encrypted: true, undecryptable: true };
+            }
+          } else if (msg.from !== usernameRef.current && isPinned(usernameRef.current, msg.from)) {
+            item = { ...item, unencrypted: true };
+          }
+          appendDm(peer, item);
+          bumpUnread(dmTab(peer));
+          if (msg.from !== usernameRef.current && activeTabRef.current === dmTab(peer) && !atBottomRef.current) {
+            setUnseen((n) => n + 1);
+          }
+          if (msg.from !== usernameRef.current) {
+            notifyIfHidden(dmTab(peer), true, `${msg.from} (privado)`, item.undecryptable ? "Mensaje cifrado" : item.text);
+          }
+        });
+      }),
+      onKeyChanged((k) => {
+        // Solo importan los contactos con los que ya hablamos (al resto se le piden las claves al abrir)
+        if (!peerKeysRef.current.has(k.username)) return;
+        void enqueueDm(k.username, () => applyPeerKey(k.username, k.keys));
+      }),
+      onUsersList((u, room) => setRoomUsers((prev) => ({ ...prev, [room]: u }))),
+      onPresence((info) => {
+        // El estado propio pudo cambiarlo otro dispositivo
+        if (info.username === usernameRef.current) setMyStatus(info.status);
+        setRoomUsers((prev) => {
+          const next: Record<string, UserInfo[]> = {};
+          for (const [room, list] of Object.entries(prev)) {
+            next[room] = list.map((x) => (x.username === info.username ? info : x));
+          }
+          return next;
+        });
+      }),
+      onTyping((e, on) => {
+        const tab = e.room !== undefined ? roomTab(e.room) : dmTab(e.username);
+        setTyping((prev) => {
+          const current = prev[tab] ?? [];
+          if (on === current.includes(e.username)) return prev;
+          return { ...prev, [tab]: on ? [...current, e.username] : current.filter((u) => u !== e.username) };
+        });
+      }),
+      onRoomsList(setRooms),
+      onRoomJoined((room, u, history) => {
+        setJoined((prev) => (prev.includes(room) ? prev : [...prev, room]));
+        setRoomUsers((prev) => ({ ...prev, [room]: u }));
+        setRoomMessages((prev) => (prev[room] ? prev : { ...prev, [room]: history.map(toChat) }));
+        setHasOlder((prev) => (room in prev ? prev : { ...prev, [room]: history.length > 0 }));
+        if (joinRequestedRef.current.delete(room)) setActiveTab(roomTab(room));
+      }),
+      onRoomLeft((room) => {
+        setDetached(room, false);
+        setJoined((prev) => prev.filter((r) => r !== room));
+        setRoomMessages((prev) => {
+          const next = { ...prev };
+          delete next[room];
+          return next;
+        });
+        setHasOlder((prev) => {
+          const next = { ...prev };
+          delete next[room];
+          return next;
+        });
+        if (activeTabRef.current === roomTab(room)) setActiveTab(GLOBAL_TAB);
       }),
-      onUserLeft((u) => {
-        setUsers((prev) => prev.filter((x) => x !== u));
-        setMessages((m) => [...m, { kind: "system", text: `${u} salió`, at: Date.now() }]);
+      onUserJoined((u, room) => {
+        setRoomUsers((prev) => {
+          const current = prev[room] ?? [];
+          if (current.some((x) => x.username === u)) return prev;
+          return { ...prev, [room]: [...current, { username: u, status: "online", lastSeen: Date.now() }] };
+        });
+        appendRoom(room, { kind: "system", text: `${u} se unió`, at: Date.now() });
       }),
-      onServerError((e) => api.error({ message: "Error del servidor", description: e.message })),
+      onUserLeft((u, room) => {
+        setRoomUsers((prev) => ({ ...prev, [room]: (prev[room] ?? []).filter((x) => x.username !== u) }));
+        appendRoom(room, { kind: "system", text: `${u} salió`, at: Date.now() });
+        if (room !== GLOBAL_ROOM) return;
+        setDms((prev) =>
+          prev[u]
+            ? { ...prev, [u]: appendWindowed(prev[u], { kind: "system", text: `${u} se desconectó`, at: Date.now() }) }
+            : prev
+        );
+      }),
+      onSystemMessage((m) => {
+        const tab = activeTabRef.current;
+        const room = roomOf(tab);
+        const msg: Message = { kind: "system", text: m.text, at: m.at };
+        if (room !== null) appendRoom(room, msg);
+        else appendDm(peerOf(tab) ?? "", msg);
+      }),
+      onUserRenamed((from, to) => {
+        if (from === usernameRef.current) {
+          saveNotifyLevel(to, notifyLevelRef.current);
+          void renameIdentity(from, to).catch((e: unknown) => console.error("[e2e] no se pudo mover la clave", e));
+          sessionStorage.setItem("chat.username", to);
+          setUsername(to);
+        }
+        setRoomUsers((prev) => {
+          const next: Record<string, UserInfo[]> = {};
+          for (const [room, list] of Object.entries(prev)) {
+            next[room] = list.map((x) => (x.username === from ? { ...x, username: to } : x));
+          }
+          return next;
+        });
+        // La conversación privada sigue con el nombre nuevo (y con la clave que conocíamos)
+        const key = peerKeysRef.current.get(from);
+        if (key) {
+          peerKeysRef.current.delete(from);
+          setPeerKey(to, key);
+        }
+        renamePeer(usernameRef.current, from, to);
+        setDms((prev) => {
+          const conversation = prev[from];
+          if (!conversation) return prev;
+          const next = { ...prev, [to]: conversation };
+          delete next[from];
+          return next;
+        });
+        if (activeTabRef.current === dmTab(from)) setActiveTab(dmTab(to));
+        appendRoom(GLOBAL_ROOM, { kind: "system", text: `${from} ahora se llama ${to}`, at: Date.now() });
+      }),
+      onServerError((e) => {
+        // Una página que no llegó se puede volver a pedir
+        setPaging({});
+        // El rate limiting se muestra como cuenta regresiva, no como notificación
+        if (e.code === "RATE_LIMITED") return;
+        // Cerrada desde otro dispositivo: el token ya no sirve para volver a entrar
+        if (e.code === "SESSION_REVOKED") {
+          sessionStorage.removeItem("chat.username");
+          sessionStorage.removeItem("chat.token");
+        }
+        if (EXPULSIONS.includes(e.code)) notification.error({ message: "Sesión terminada", description: e.message });
+        else api.error({ message: "Error del servidor", description: e.message });
+      }),
+      onModAction((a) => appendRoom(GLOBAL_ROOM, { kind: "system", text: describeModAction(a), at: a.at })),
+      onThrottled((ms) => setThrottledUntil((prev) => Math.max(prev, Date.now() + ms))),
       onDisconnect((reason) => {
-        setMessages((m) => [
-          ...m,
-          { kind: "system", text: `Desconectado (${reason})`, at: Date.now() },
-        ]);
-        navigate("/", { replace: true });
+        if (FINAL_DISCONNECTS.includes(reason)) {
+          appendRoom(GLOBAL_ROOM, { kind: "system", text: `Desconectado (${reason})`, at: Date.now() });
+          navigate("/", { replace: true });
+          return;
+        }
+        // Corte de red: Socket.IO reintenta solo y el hello reanuda la sesión
+        setReconnecting(true);
+        appendRoom(GLOBAL_ROOM, { kind: "system", text: "Conexión perdida, reconectando…", at: Date.now() });
+      }),
+      onResumed((w) => {
+        setReconnecting(false);
+        // Si el servidor olvidó la sesión también olvidó la clave
+        if (identityRef.current) publishKey(identityRef.current.publicKey);
+        const missed = w.missed ?? [];
+        const byRoom = new Map<string, ChatOutPayload[]>();
+        for (const m of missed) byRoom.set(m.room, [...(byRoom.get(m.room) ?? []), m]);
+        byRoom.forEach((list, room) => {
+          if (!detachedRef.current.has(room)) mergeRoom(room, list);
+          bumpUnread(roomTab(room));
+        });
+        const updatedByRoom = new Map<string, ChatOutPayload[]>();
+        for (const m of w.updated ?? []) updatedByRoom.set(m.room, [...(updatedByRoom.get(m.room) ?? []), m]);
+        updatedByRoom.forEach((list, room) => updateRoom(room, list));
+        appendRoom(GLOBAL_ROOM, {
+          kind: "system",
+          text: missed.length > 0 ? `Reconectado (${missed.length} mensajes nuevos)` : "Reconectado",
+          at: Date.now(),
+        });
+        w.joined.forEach((room) => requestUsers(room));
+        requestRooms();
       })
     );
 
     requestUsers();
+    requestRooms();
     return () => unsubs.forEach((u) => u());
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -116,33 +1087,162 @@ const Chat: React.FC = () => {
             <Text type="secondary">Nadie conectado.</Text>
           ) : (
             users.map((u) => (
-              <Text key={u} style={{ wordBreak: "break-word" }}>
-                • {u}
-              </Text>
+              <Space key={u.username} size={6} align="start">
+                <Badge status={STATUS_BADGE[u.status]} title={STATUS_LABEL[u.status]} />
+                <div>
+                  {u.username === username ? (
+                    <Text style={{ wordBreak: "break-word" }}>{u.username} (vos)</Text>
+                  ) : (
+                    <Typography.Link style={{ wordBreak: "break-word" }} onClick={() => openDm(u.username)}>
+                      {u.username}
+                    </Typography.Link>
+                  )}
+                  <Text type="secondary" style={{ display: "block", fontSize: 12 }}>
+                    {STATUS_LABEL[u.status]}
+                    {u.status !== "online" && ` · activo a las ${fmtTime(u.lastSeen)}`}
+                  </Text>
+                </div>
+              </Space>
             ))
           )}
         </Space>
       </div>
     ),
-    [users]
+    [users, username]
   );
 
+  const toggleReaction = (id: string, emoji: string, users: string[] | undefined) => {
+    if (users?.includes(username)) removeReaction(id, emoji);
+    else addReaction(id, emoji);
+  };
+
+  const replyingTo = replying && replying.room === activeRoom ? replying.ref : null;
+
+  const openThread = (id: string, room: string) => {
+    setThread({ id, room, replies: [] });
+    fetchThread(id);
+  };
+
+  // Salta al mensaje si está cargado; si no, lo muestra en el panel de hilo
+  const jumpTo = (id: string, room: string) => {
+    const index = (roomMessages[room] ?? []).findIndex((m) => m.kind === "chat" && m.id === id);
+    if (index === -1) return openThread(id, room);
+    virtuosoRef.current?.scrollToIndex({ index, align: "center" });
+    setHighlightId(id);
+    window.setTimeout(() => setHighlightId((prev) => (prev === id ? null : prev)), 1500);
+  };
+
+  // Resultado de búsqueda: va a su sala y salta al mensaje (pidiendo el tramo que lo rodea si no está cargado)
+  const openSearchHit = (m: ChatOutPayload) => {
+    if (!joined.includes(m.room)) return;
+    setSearchOpen(false);
+    setActiveTab(roomTab(m.room));
+    setPendingJump({ id: m.id, room: m.room, requested: false });
+  };
+
+  useEffect(() => {
+    if (!pendingJump || activeTab !== roomTab(pendingJump.room)) return;
+    const { id, room, requested } = pendingJump;
+    if ((roomMessages[room] ?? []).some((m) => m.kind === "chat" && m.id === id)) {
+      setPendingJump(null);
+      window.setTimeout(() => jumpTo(id, room), 0);
+    } else if (!requested) {
+      setPendingJump({ ...pendingJump, requested: true });
+      fetchAround(room, id);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingJump, activeTab, roomMessages]);
+
+  // Envío a una sala con mensaje optimista (pendiente hasta el ack)
+  const sendToRoom = (room: string, t: string, replyTo?: ReplyRef, files: AttachmentInfo[] = []) => {
+    // El mensaje propio se ve al final de la sala, no debajo de un tramo viejo
+    if (detachedRef.current.has(room)) returnToPresent(room);
+    followNextRef.current = true;
+    const clientId = sendMessage(t, room, {
+      ...(replyTo ? { replyTo: replyTo.id } : {}),
+      attachments: files.map((f) => f.id),
+    });
+    appendRoom(room, {
+      kind: "chat",
+      clientId,
+      status: "pending",
+      username,
+      text: t,
+      at: Date.now(),
+      ...(replyTo ? { replyTo } : {}),
+      ...(files.length > 0 ? { attachments: files } : {}),
+    });
+  };
+
+  // Sube archivos (soltados, pegados o elegidos) para adjuntarlos al próximo mensaje de la sala
+  const startUploads = (files: File[]) => {
+    if (files.length === 0) return;
+    if (activePeer) {
+      api.warning({ message: "Los adjuntos solo se pueden enviar en salas" });
+      return;
+    }
+    const { uploadMaxBytes } = getLimits();
+    for (const file of files) {
+      if (file.size > uploadMaxBytes) {
+        api.warning({ message: `${file.name || "El archivo"} supera ${fmtSize(uploadMaxBytes)}` });
+        continue;
+      }
+      const uid = crypto.randomUUID();
+      const patch = (p: Partial<PendingUpload>) =>
+        setUploads((prev) => prev.map((u) => (u.uid === uid ? { ...u, ...p } : u)));
+      setUploads((prev) => [...prev, { uid, name: file.name || "archivo", percent: 0 }]);
+      uploadFile(file, (percent) => patch({ percent }))
+        .then((attachment) => patch({ attachment, percent: 100 }))
+        .catch((e: unknown) => patch({ error: e instanceof Error ? e.message : "Error subiendo el archivo" }));
+    }
+  };
+
+  // Mismos límites de formato que el servidor: se avisa antes de enviar
+  const formatIssue = text.trim() ? formatProblem(text.trim(), getLimits()) : null;
+
+  const saveEdit = () => {
+    if (!editing) return;
+    const t = editing.text.trim();
+    const original = visibleMessages.find((m) => m.kind === "chat" && m.id === editing.id);
+    if (t && original?.kind === "chat" && t !== original.text) editMessage(editing.id, t);
+    setEditing(null);
+  };
+
   const handleSend = () => {
     const t = text.trim();
-    if (!t) return;
-    if (t === "/listar") {
-      requestUsers();
-      setText("");
+    if ((!t && readyAttachments.length === 0) || throttleLeft > 0 || uploading || formatIssue) return;
+    stopOwnTyping();
+    // En privado /me también va cifrado, así que no se manda como comando
+    const dmAction = activePeer && /^\/me\s/.test(t) ? t.slice(4).trim() : null;
+    // Los comandos los interpreta el servidor (/help los lista)
+    if (t.startsWith("/") && dmAction === null) {
+      if (t === "/quitar") {
+        sessionStorage.removeItem("chat.username");
+        sessionStorage.removeItem("chat.token");
+      }
+      try {
+        runCommand(t, typingTargetOf(activeTab));
+        setText("");
+      } catch (e) {
+        api.error({ message: "No se pudo enviar", description: e instanceof Error ? e.message : "Error desconocido" });
+      }
       return;
     }
-    if (t === "/quitar") {
-      quit();
-      setText("");
-      sessionStorage.removeItem("chat.username");
+    if (activePeer) {
+      if (!t || dmAction === "" || identity === undefined) return;
+      // El texto queda si no se pudo enviar (por ejemplo, si la clave del contacto cambió)
+      sendDm(activePeer, dmAction ?? t, dmAction !== null).then(
+        () => setText(""),
+        (e: unknown) =>
+          api.error({ message: "No se pudo enviar", description: e instanceof Error ? e.message : "Error desconocido" })
+      );
       return;
     }
     try {
-      sendMessage(t);
+      const room = activeRoom ?? GLOBAL_ROOM;
+      sendToRoom(room, t, replyingTo ?? undefined, readyAttachments);
+      if (replyingTo) setReplying(null);
+      setUploads([]);
       setText("");
     } catch (e: any) {
       api.error({ message: "No se pudo enviar", description: e?.message ?? "Error desconocido" });
@@ -177,9 +1277,9 @@ const Chat: React.FC = () => {
           {/* Lado izquierdo: título + usuario */}
           <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", minWidth: 0 }}>
             <Title level={isMobile ? 5 : 4} style={{ margin: 0 }}>
-              {isMobile ? "Chat" : "Sala global"}
+              {activePeer ? `@${activePeer}` : activeRoom === GLOBAL_ROOM ? "Sala global" : `#${activeRoom}`}
             </Title>
-            {!isMobile && <Text type="secondary">Conectado como</Text>}
+            {!isMobile && <Text type="secondary">{reconnecting ? "Reconectando como" : "Conectado como"}</Text>}
             <Text
               strong
               style={{
@@ -195,7 +1295,43 @@ const Chat: React.FC = () => {
           </div>
 
           <Space wrap>
-            
+            <Select
+              size="small"
+              value={myStatus}
+              onChange={changeStatus}
+              popupMatchSelectWidth={false}
+              options={(Object.keys(STATUS_LABEL) as UserStatus[]).map((s) => ({
+                value: s,
+                label: <Badge status={STATUS_BADGE[s]} text={STATUS_LABEL[s]} />,
+              }))}
+            />
+            {canNotify() && (
+              <Select
+                size="small"
+                value={notifyLevel}
+                onChange={changeNotifyLevel}
+                popupMatchSelectWidth={false}
+                prefix={<BellOutlined />}
+                title="Notificaciones"
+                options={(Object.keys(NOTIFY_LABEL) as NotifyLevel[]).map((l) => ({ value: l, label: NOTIFY_LABEL[l] }))}
+              />
+            )}
+            <Button
+              ghost
+              icon={<SearchOutlined />}
+              style={{ borderColor: "rgba(255,255,255,0.2)" }}
+              onClick={() => setSearchOpen(true)}
+            >
+              {!isMobile && "Buscar"}
+            </Button>
+            <Button
+              ghost
+              icon={<LaptopOutlined />}
+              style={{ borderColor: "rgba(255,255,255,0.2)" }}
+              onClick={() => setSessionsOpen(true)}
+            >
+              {!isMobile && "Sesiones"}
+            </Button>
             <Popover content={usersContent} trigger="click" placement="bottomRight">
               <Button
                 ghost
@@ -218,6 +1354,7 @@ const Chat: React.FC = () => {
                   quit();
                 } finally {
                   sessionStorage.removeItem("chat.username");
+                  sessionStorage.removeItem("chat.token");
                   disconnect();
                   navigate("/", { replace: true });
                 }
@@ -229,68 +1366,478 @@ const Chat: React.FC = () => {
         </div>
       </Header>
 
-      <Content style={{ padding: "12px 12px 0", display: "flex", flexDirection: "column" }}>
-        <div
-          ref={listRef}
-          style={{
-            flex: 1,
-            minHeight: 0,
-            overflowY: "auto",
-            padding: 12,
-            background: "rgba(13,25,48,0.50)",
-            border: "1px solid rgba(255,255,255,0.06)",
-            borderRadius: 12,
-          }}
-        >
-          <List
-            dataSource={messages}
-            renderItem={(item) =>
-              item.kind === "system" ? (
-                <List.Item style={{ border: "none", padding: "6px 8px" }}>
-                  <Text type="secondary" style={{ fontStyle: "italic", wordBreak: "break-word" }}>
-                    [{fmtTime(item.at)}] {item.text}
-                  </Text>
-                </List.Item>
-              ) : (
-                <List.Item style={{ border: "none", padding: "6px 8px", alignItems: "flex-start" }}>
-                  <Space direction="vertical" size={2} style={{ width: "100%" }}>
-                    <Text style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
-                      <Text strong style={{ wordBreak: "break-word" }}>{item.username}</Text>
-                      <Text type="secondary">· {fmtTime(item.at)}</Text>
-                    </Text>
-                    <Text style={{ whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
-                      {item.text}
+      <Layout style={{ background: "transparent", flex: 1, minHeight: 0 }}>
+        <RoomSidebar
+          rooms={rooms}
+          joined={joined}
+          activeRoom={activeRoom}
+          onSelect={selectRoom}
+          onLeave={leaveRoom}
+          onCreate={addRoom}
+        />
+        <Layout style={{ background: "transparent", display: "flex", flexDirection: "column" }}>
+          <Content style={{ padding: "12px 12px 0", display: "flex", flexDirection: "column" }}>
+            <Tabs
+              type="editable-card"
+              hideAdd
+              size="small"
+              activeKey={activeTab}
+              onChange={setActiveTab}
+              onEdit={(key, action) => {
+                if (action === "remove" && typeof key === "string") {
+                  const peer = peerOf(key);
+                  if (peer) closeDm(peer);
+                }
+              }}
+              style={{ marginBottom: 0 }}
+              items={[
+                ...joined.map((room) => ({
+                  key: roomTab(room),
+                  closable: false,
+                  label: (
+                    <Badge count={unread[roomTab(room)] ?? 0} size="small" offset={[8, -2]}>
+                      <span>{room === GLOBAL_ROOM ? "Sala global" : `#${room}`}</span>
+                    </Badge>
+                  ),
+                })),
+                ...Object.keys(dms).map((peer) => ({
+                  key: dmTab(peer),
+                  label: (
+                    <Badge count={unread[dmTab(peer)] ?? 0} size="small" offset={[8, -2]}>
+                      <span>@{peer}</span>
+                    </Badge>
+                  ),
+                })),
+              ]}
+            />
+            {activePeer && (
+              <E2EStatus
+                peer={activePeer}
+                myFingerprint={identity === undefined ? undefined : identity?.fingerprint ?? null}
+                {...(peerKeys[activePeer] ? { peerKey: peerKeys[activePeer] } : {})}
+                {...(peerKeys[username] ? { ownKey: peerKeys[username] } : {})}
+                onAccept={() => acceptPeerKey(activePeer)}
+                onAllowPlaintext={() => allowPlaintextTo(activePeer)}
+              />
+            )}
+            <div
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes("Files")) return;
+                e.preventDefault();
+                setDragging(true);
+              }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragging(false);
+                startUploads(Array.from(e.dataTransfer.files));
+              }}
+              style={{
+                flex: 1,
+                minHeight: 0,
+                position: "relative",
+                display: "flex",
+                flexDirection: "column",
+                padding: 12,
+                background: "rgba(13,25,48,0.50)",
+                border: dragging ? `1px dashed ${token.colorPrimary}` : "1px solid rgba(255,255,255,0.06)",
+                borderRadius: 12,
+              }}
+            >
+              <Virtuoso
+                // Se monta de nuevo (abajo de todo) al cambiar de pestaña o de tramo
+                key={`${activeTab}:${listIndex.generation}`}
+                ref={virtuosoRef}
+                style={{ flex: 1 }}
+                data={visibleMessages}
+                firstItemIndex={listIndex.first}
+                initialTopMostItemIndex={Math.max(0, visibleMessages.length - 1)}
+                computeItemKey={(_, item) => messageKey(item)}
+                // Sigue a lo nuevo solo si ya estaba abajo (o tras enviar)
+                followOutput={(bottom) => {
+                  const follow = bottom || followNextRef.current;
+                  followNextRef.current = false;
+                  return follow ? "auto" : false;
+                }}
+                atBottomThreshold={48}
+                atBottomStateChange={onAtBottom}
+                startReached={loadOlder}
+                endReached={loadNewer}
+                increaseViewportBy={{ top: 400, bottom: 200 }}
+                context={{
+                  loadingOlder: !!activeRoom && paging[activeRoom] === "older",
+                  loadingNewer: !!activeRoom && paging[activeRoom] === "newer",
+                }}
+                components={{ Header: ListHeader, Footer: ListFooter }}
+                itemContent={(_, item) =>
+                  item.kind === "system" ? (
+                    <div style={{ padding: "6px 8px" }}>
+                      <Text type="secondary" style={{ fontStyle: "italic", whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
+                        [{fmtTime(item.at)}] {item.text}
+                      </Text>
+                    </div>
+                  ) : (
+                    <div
+                      style={{
+                        padding: "6px 8px",
+                        opacity: item.status === "pending" ? 0.6 : 1,
+                        borderRadius: 8,
+                        transition: "background 0.3s",
+                        background:
+                          item.id && item.id === highlightId
+                            ? "rgba(22,119,255,0.18)"
+                            : item.mentions?.includes(username)
+                              ? "rgba(250,173,20,0.12)"
+                              : undefined,
+                      }}
+                    >
+                      <Space direction="vertical" size={2} style={{ width: "100%" }}>
+                        <Text style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                          <Text strong style={{ wordBreak: "break-word" }}>{item.username}</Text>
+                          {item.bot && <BotTag />}
+                          <Text type="secondary">· {fmtTime(item.at)}</Text>
+                          {item.editedAt && !item.deleted && <Text type="secondary">(editado)</Text>}
+                          {item.encrypted && (
+                            <Text type="secondary" title="Cifrado de extremo a extremo">
+                              <LockOutlined />
+                            </Text>
+                          )}
+                          {item.unencrypted && (
+                            <Text type="warning" title={`${item.username} antes cifraba sus mensajes`}>
+                              <UnlockOutlined /> Sin cifrar
+                            </Text>
+                          )}
+                          {item.status === "pending" && (
+                            <Text type="secondary" title="Enviando…">
+                              <ClockCircleOutlined />
+                            </Text>
+                          )}
+                          {item.status === "failed" && item.clientId && (
+                            <Text type="danger" title={item.error}>
+                              <ExclamationCircleOutlined /> No enviado ·{" "}
+                              <Typography.Link onClick={() => item.clientId && retryMessage(item.clientId)}>
+                                Reintentar
+                              </Typography.Link>
+                            </Text>
+                          )}
+                          {item.id && !item.deleted && editing?.id !== item.id && (
+                            <span style={{ marginLeft: "auto", display: "flex", gap: 8 }}>
+                              {activeRoom && (
+                                <>
+                                  <Typography.Link
+                                    type="secondary"
+                                    title="Responder"
+                                    onClick={() =>
+                                      item.id && setReplying({ room: activeRoom, ref: replyRefOf({ ...item, id: item.id }) })
+                                    }
+                                  >
+                                    <RollbackOutlined />
+                                  </Typography.Link>
+                                  <Typography.Link
+                                    type="secondary"
+                                    title="Ver hilo"
+                                    onClick={() => item.id && openThread(item.id, activeRoom)}
+                                  >
+                                    <CommentOutlined />
+                                  </Typography.Link>
+                                </>
+                              )}
+                              <Popover
+                                trigger="click"
+                                content={
+                                  <Space size={4}>
+                                    {REACTION_CHOICES.map((emoji) => (
+                                      <Button
+                                        key={emoji}
+                                        type="text"
+                                        size="small"
+                                        onClick={() => item.id && toggleReaction(item.id, emoji, item.reactions?.[emoji])}
+                                      >
+                                        {emoji}
+                                      </Button>
+                                    ))}
+                                  </Space>
+                                }
+                              >
+                                <Typography.Link type="secondary" title="Reaccionar">
+                                  <SmileOutlined />
+                                </Typography.Link>
+                              </Popover>
+                              {item.username === username && !item.bot && (
+                                <Typography.Link
+                                  type="secondary"
+                                  title="Editar"
+                                  onClick={() => item.id && setEditing({ id: item.id, text: item.text })}
+                                >
+                                  <EditOutlined />
+                                </Typography.Link>
+                              )}
+                              {((item.username === username && !item.bot) || isModerator) && (
+                                <Popconfirm
+                                  title="¿Borrar este mensaje?"
+                                  okText="Borrar"
+                                  cancelText="Cancelar"
+                                  onConfirm={() => item.id && deleteMessage(item.id)}
+                                >
+                                  <Typography.Link type="secondary" title="Borrar">
+                                    <DeleteOutlined />
+                                  </Typography.Link>
+                                </Popconfirm>
+                              )}
+                            </span>
+                          )}
+                        </Text>
+                        {item.replyTo && (
+                          <Typography.Link
+                            onClick={() => item.replyTo && jumpTo(item.replyTo.id, activeRoom ?? GLOBAL_ROOM)}
+                            style={{
+                              display: "block",
+                              borderLeft: `3px solid ${token.colorPrimary}`,
+                              paddingLeft: 8,
+                              opacity: 0.8,
+                            }}
+                          >
+                            <Text strong type="secondary">{item.replyTo.username}: </Text>
+                            <Text type="secondary" style={{ wordBreak: "break-word" }}>
+                              {item.replyTo.text || "📎 Adjunto"}
+                            </Text>
+                          </Typography.Link>
+                        )}
+                        {item.deleted ? (
+                          <Text type="secondary" style={{ fontStyle: "italic" }}>
+                            Mensaje eliminado
+                          </Text>
+                        ) : item.undecryptable ? (
+                          <Text type="danger" style={{ fontStyle: "italic" }}>
+                            No se pudo descifrar este mensaje (se cifró con otra clave).
+                          </Text>
+                        ) : editing && editing.id === item.id ? (
+                          <Input.TextArea
+                            autoFocus
+                            size="small"
+                            autoSize={{ minRows: 1, maxRows: 10 }}
+                            value={editing.text}
+                            maxLength={getLimits().textMax}
+                            onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Escape") setEditing(null);
+                              else if (isSendKey(e)) {
+                                e.preventDefault();
+                                saveEdit();
+                              }
+                            }}
+                            onBlur={() => setEditing(null)}
+                          />
+                        ) : item.action ? (
+                          <Text italic style={{ wordBreak: "break-word" }}>
+                            * {item.username} <MessageText text={item.text} mentions={item.mentions} me={username} inline />
+                          </Text>
+                        ) : (
+                          item.text && <MessageText text={item.text} mentions={item.mentions} me={username} />
+                        )}
+                        {item.attachments && !item.deleted && <Attachments items={item.attachments} />}
+                        {item.id && item.reactions && !item.deleted && (
+                          <Space size={4} wrap>
+                            {Object.entries(item.reactions).map(([emoji, users]) => (
+                              <Tooltip key={emoji} title={users.join(", ")}>
+                                <Button
+                                  size="small"
+                                  shape="round"
+                                  type={users.includes(username) ? "primary" : "default"}
+                                  ghost={users.includes(username)}
+                                  onClick={() => item.id && toggleReaction(item.id, emoji, users)}
+                                >
+                                  {emoji} {users.length}
+                                </Button>
+                              </Tooltip>
+                            ))}
+                          </Space>
+                        )}
+                      </Space>
+                    </div>
+                  )
+                }
+              />
+              {(!atBottom || (activeRoom && hasNewer[activeRoom])) && (
+                <Button
+                  shape="round"
+                  type={unseen > 0 ? "primary" : "default"}
+                  icon={<ArrowDownOutlined />}
+                  onClick={goToBottom}
+                  style={{ position: "absolute", bottom: 20, left: "50%", transform: "translateX(-50%)" }}
+                >
+                  {unseen > 0 ? `${unseen} ${unseen === 1 ? "mensaje nuevo" : "mensajes nuevos"}` : "Ir al final"}
+                </Button>
+              )}
+            </div>
+          </Content>
+
+          <Footer style={{ background: "transparent", paddingTop: 12 }}>
+            {replyingTo && (
+              <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 6 }}>
+                <Text type="secondary" ellipsis style={{ flex: 1 }}>
+                  Respondiendo a <Text strong>{replyingTo.username}</Text>: {replyingTo.text}
+                </Text>
+                <Button size="small" type="text" icon={<CloseOutlined />} onClick={() => setReplying(null)} />
+              </div>
+            )}
+            <Text type="secondary" style={{ display: "block", minHeight: 22, fontStyle: "italic" }}>
+              {(typing[activeTab] ?? []).length > 0 && typingLine(typing[activeTab] ?? [])}
+            </Text>
+            {throttleLeft > 0 && (
+              <Text type="warning" style={{ display: "block", marginBottom: 6 }}>
+                Estás enviando demasiado rápido. Podés volver a enviar en {throttleLeft} s.
+              </Text>
+            )}
+            {uploads.length > 0 && (
+              <Space direction="vertical" size={2} style={{ width: "100%", marginBottom: 6 }}>
+                {uploads.map((u) => (
+                  <div key={u.uid} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                    <Text ellipsis style={{ maxWidth: 200 }} title={u.name}>
+                      <PaperClipOutlined /> {u.name}
                     </Text>
-                  </Space>
-                </List.Item>
-              )
-            }
-          />
-        </div>
-      </Content>
-
-      <Footer style={{ background: "transparent", paddingTop: 12 }}>
-        <Space.Compact style={{ width: "100%" }}>
-          <Input
-            placeholder='Escribí un mensaje…'
-            size="large"
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            onPressEnter={handleSend}
-            maxLength={2000}
-            allowClear
-          />
-          <Button
-            type="primary"
-            size="large"
-            icon={<SendOutlined />}
-            onClick={handleSend}
-            disabled={!isConnected() || text.trim().length === 0}
-          >
-            {!isMobile && "Enviar"}
-          </Button>
-        </Space.Compact>
-      </Footer>
+                    {u.error ? (
+                      <Text type="danger" style={{ flex: 1 }}>
+                        {u.error}
+                      </Text>
+                    ) : (
+                      <Progress percent={u.percent} size="small" style={{ flex: 1, margin: 0 }} />
+                    )}
+                    <Button
+                      size="small"
+                      type="text"
+                      icon={<CloseOutlined />}
+                      onClick={() => setUploads((prev) => prev.filter((x) => x.uid !== u.uid))}
+                    />
+                  </div>
+                ))}
+              </Space>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              hidden
+              onChange={(e) => {
+                startUploads(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+            {preview && text.trim() && (
+              <div
+                style={{
+                  maxHeight: "30vh",
+                  overflowY: "auto",
+                  marginBottom: 6,
+                  padding: "6px 10px",
+                  border: "1px dashed rgba(255,255,255,0.15)",
+                  borderRadius: 8,
+                }}
+              >
+                <Text type="secondary" style={{ display: "block", fontSize: 12 }}>
+                  Vista previa
+                </Text>
+                <MessageText text={text.trim()} me={username} />
+              </div>
+            )}
+            {formatIssue && (
+              <Text type="danger" style={{ display: "block", marginBottom: 6 }}>
+                {formatIssue}
+              </Text>
+            )}
+            <Space.Compact style={{ width: "100%", alignItems: "flex-end" }}>
+              {!activePeer && (
+                <Button
+                  size="large"
+                  icon={<PaperClipOutlined />}
+                  title="Adjuntar archivo"
+                  onClick={() => fileInputRef.current?.click()}
+                />
+              )}
+              <Input.TextArea
+                placeholder={
+                  activePeer
+                    ? `Mensaje privado para ${activePeer}… (Shift+Enter: nueva línea)`
+                    : "Escribí un mensaje… (Shift+Enter: nueva línea, /help: comandos)"
+                }
+                size="large"
+                autoSize={{ minRows: 1, maxRows: 8 }}
+                value={text}
+                onChange={(e) => handleTextChange(e.target.value)}
+                onKeyDown={(e) => {
+                  if (!isSendKey(e)) return;
+                  e.preventDefault();
+                  handleSend();
+                }}
+                onPaste={(e) => {
+                  const files = Array.from(e.clipboardData.files);
+                  if (files.length === 0) return;
+                  e.preventDefault();
+                  startUploads(files);
+                }}
+                maxLength={getLimits().textMax}
+                allowClear
+              />
+              <Button
+                size="large"
+                icon={<EyeOutlined />}
+                type={preview ? "primary" : "default"}
+                ghost={preview}
+                title={preview ? "Ocultar vista previa" : "Vista previa (**negrita**, *cursiva*, `código`, ```bloques```)"}
+                onClick={() => setPreview((p) => !p)}
+              />
+              <Button
+                type="primary"
+                size="large"
+                icon={<SendOutlined />}
+                onClick={handleSend}
+                disabled={
+                  (text.trim().length === 0 && (readyAttachments.length === 0 || activePeer !== null)) ||
+                  uploading ||
+                  throttleLeft > 0 ||
+                  formatIssue !== null ||
+                  (activePeer !== null && (reconnecting || identity === undefined))
+                }
+              >
+                {!isMobile && "Enviar"}
+              </Button>
+            </Space.Compact>
+          </Footer>
+        </Layout>
+      </Layout>
+
+      <ThreadPanel
+        open={thread !== null}
+        {...(thread?.parent ? { parent: thread.parent } : {})}
+        replies={thread?.replies ?? []}
+        me={username}
+        isMobile={isMobile}
+        onClose={() => setThread(null)}
+        onReply={(t) => {
+          if (!thread?.parent) return;
+          try {
+            sendToRoom(thread.room, t, replyRefOf({ ...toChat(thread.parent), id: thread.parent.id }));
+          } catch (e) {
+            api.error({ message: "No se pudo enviar", description: e instanceof Error ? e.message : "Error desconocido" });
+          }
+        }}
+        onJump={(id) => {
+          if (!thread) return;
+          setActiveTab(roomTab(thread.room));
+          setThread(null);
+          window.setTimeout(() => jumpTo(id, thread.room), 0);
+        }}
+      />
+
+      <SearchDrawer
+        open={searchOpen}
+        rooms={joined}
+        isMobile={isMobile}
+        onClose={() => setSearchOpen(false)}
+        onOpen={openSearchHit}
+      />
+
+      <SessionsDrawer open={sessionsOpen} isMobile={isMobile} onClose={() => setSessionsOpen(false)} />
     </Layout>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   Card,
   Form,
@@ -9,34 +9,63 @@ import {
   Divider,
   theme,
   notification,
+  Segmented,
 } from "antd";
-import { UserOutlined, LoginOutlined, MessageOutlined } from "@ant-design/icons";
+import { UserOutlined, LoginOutlined, MessageOutlined, LockOutlined } from "@ant-design/icons";
 import { useNavigate } from "react-router-dom";
-import { connect, disconnect } from "../utils/socket";
+import { connect, disconnect, DEFAULT_PUBLIC_LIMITS, isValidName } from "../utils/socket";
+import { login, register } from "../utils/auth";
+import { fetchLimits } from "../utils/config";
 
 const { Title, Text } = Typography;
 
-// 3–20 chars, letras, números, guion y guion bajo
-const USERNAME_REGEX = /^[a-zA-Z0-9_-]{3,20}$/;
+type Mode = "guest" | "login" | "register";
+type FormValues = { username: string; password?: string };
+
+const SUBMIT_LABEL: Record<Mode, string> = {
+  guest: "Entrar como invitado",
+  login: "Iniciar sesión",
+  register: "Crear cuenta y entrar",
+};
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
-  const [form] = Form.useForm<{ username: string }>();
+  const [form] = Form.useForm<FormValues>();
+  const [mode, setMode] = useState<Mode>("guest");
   const [username, setUsername] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [api, contextHolder] = notification.useNotification();
   const { token } = theme.useToken();
+  const [limits, setLimits] = useState(DEFAULT_PUBLIC_LIMITS);
+
+  // Las reglas de nombre y contraseña las decide el servidor
+  useEffect(() => {
+    let active = true;
+    fetchLimits().then((l) => active && setLimits(l));
+    return () => {
+      active = false;
+    };
+  }, []);
 
-  const isValid = useMemo(() => USERNAME_REGEX.test(username.trim()), [username]);
+  const isValid = useMemo(() => isValidName(username, limits), [username, limits]);
+  const nameRange = `${limits.usernameMin}–${limits.usernameMax}`;
 
-  const handleFinish = async ({ username }: { username: string }) => {
+  const handleFinish = async ({ username, password }: FormValues) => {
     const clean = username.trim();
-    if (!USERNAME_REGEX.test(clean)) return;
+    if (!isValidName(clean, limits)) return;
     setSubmitting(true);
     try {
+      // con cuenta: primero obtenemos el token por HTTP
+      let token: string | undefined;
+      if (mode !== "guest") {
+        const auth = mode === "register" ? await register(clean, password ?? "") : await login(clean, password ?? "");
+        token = auth.token;
+      }
       // conecta al servidor y espera el 'welcome'
-      await connect(clean);
+      await connect(clean, token);
       sessionStorage.setItem("chat.username", clean);
+      if (token) sessionStorage.setItem("chat.token", token);
+      else sessionStorage.removeItem("chat.token");
       // si todo está bien, se dirige a /chat y pasamos el username en location.state
       navigate("/chat", { state: { username: clean }, replace: true });
     } catch (err: any) {
@@ -91,9 +120,23 @@ const Login: React.FC = () => {
             <Title level={3} style={{ margin: 0 }}>
               Ingresá al chat
             </Title>
-            <Text type="secondary">Elegí un nombre visible para la sala global</Text>
+            <Text type="secondary">
+              {mode === "guest" ? "Elegí un nombre visible para la sala global" : "Entrá con tu cuenta registrada"}
+            </Text>
           </div>
 
+          <Segmented<Mode>
+            block
+            value={mode}
+            onChange={setMode}
+            disabled={submitting}
+            options={[
+              { label: "Invitado", value: "guest" },
+              { label: "Ingresar", value: "login" },
+              { label: "Registrarse", value: "register" },
+            ]}
+          />
+
           <Divider style={{ margin: "8px 0", borderColor: "rgba(255,255,255,0.08)" }} />
 
           <Form
@@ -109,14 +152,14 @@ const Login: React.FC = () => {
               validateStatus={username && !isValid ? "error" : undefined}
               help={
                 username && !isValid
-                  ? "Usa 3–20 caracteres: letras, números, guion o guion bajo"
-                  : "3–20 caracteres. Ej: isaac_dev"
+                  ? `Usa ${nameRange} caracteres: letras, números, guion o guion bajo`
+                  : `${nameRange} caracteres. Ej: isaac_dev`
               }
               rules={[
                 { required: true, message: "Ingresa un nombre" },
                 {
                   validator: (_, v) =>
-                    !v || USERNAME_REGEX.test(String(v).trim())
+                    !v || isValidName(String(v), limits)
                       ? Promise.resolve()
                       : Promise.reject(new Error("Formato inválido")),
                 },
@@ -124,7 +167,7 @@ const Login: React.FC = () => {
             >
               <Input
                 size="large"
-                maxLength={20}
+                maxLength={limits.usernameMax}
                 allowClear
                 placeholder="p. ej. isaac_dev"
                 prefix={<UserOutlined />}
@@ -134,6 +177,28 @@ const Login: React.FC = () => {
               />
             </Form.Item>
 
+            {mode !== "guest" && (
+              <Form.Item
+                label="Contraseña"
+                name="password"
+                help={mode === "register" ? `Mínimo ${limits.passwordMin} caracteres` : undefined}
+                rules={[
+                  { required: true, message: "Ingresa la contraseña" },
+                  ...(mode === "register"
+                    ? [{ min: limits.passwordMin, message: `Mínimo ${limits.passwordMin} caracteres` }]
+                    : []),
+                ]}
+              >
+                <Input.Password
+                  size="large"
+                  maxLength={limits.passwordMax}
+                  prefix={<LockOutlined />}
+                  autoComplete={mode === "register" ? "new-password" : "current-password"}
+                  disabled={submitting}
+                />
+              </Form.Item>
+            )}
+
             <Button
               type="primary"
               size="large"
@@ -143,13 +208,14 @@ const Login: React.FC = () => {
               disabled={!isValid || submitting}
               loading={submitting}
             >
-              Entrar
+              {SUBMIT_LABEL[mode]}
             </Button>
           </Form>
 
           <div style={{ textAlign: "center" }}>
             <Text type="secondary" style={{ fontSize: 12 }}>
-              Este chat no requiere autenticación. Tu nombre debe ser único entre los conectados.
+              Podés entrar como invitado o con una cuenta. Los nombres registrados quedan reservados
+              para su dueño y los de invitado deben ser únicos entre los conectados.
               Todos los datos serán recopilados y vendidos a Tencent para mejorar la experiencia del usuario.
               Recomendamos compartir datos de tarjetas de crédito o débito para mejorar la funcionalidad del chat.
             </Text>
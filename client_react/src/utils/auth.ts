@@ -0,0 +1,22 @@
+import { defaultUrl } from "./socket";
+
+export type AuthResult = { username: string; token: string };
+
+type ErrorBody = { error?: { code?: string; message?: string } };
+
+const post = async (path: string, body: unknown): Promise<AuthResult> => {
+  const res = await fetch(`${defaultUrl()}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = (await res.json().catch(() => ({}))) as AuthResult & ErrorBody;
+  if (!res.ok) throw new Error(data.error?.message ?? `Error HTTP ${res.status}`);
+  return { username: data.username, token: data.token };
+};
+
+export const register = (username: string, password: string) =>
+  post("/auth/register", { username: username.trim(), password });
+
+export const login = (username: string, password: string) =>
+  post("/auth/login", { username: username.trim(), password });
@@ -0,0 +1,16 @@
+import { DEFAULT_PUBLIC_LIMITS, defaultUrl, type PublicLimits } from "./socket";
+
+/**
+ * Límites del servidor antes de conectarse (para validar el login).
+ * Si no responde usamos los por defecto: el servidor valida igual.
+ */
+export const fetchLimits = async (): Promise<PublicLimits> => {
+  try {
+    const res = await fetch(`${defaultUrl()}/config`);
+    if (!res.ok) return DEFAULT_PUBLIC_LIMITS;
+    const data = (await res.json()) as { limits?: PublicLimits };
+    return data.limits ?? DEFAULT_PUBLIC_LIMITS;
+  } catch {
+    return DEFAULT_PUBLIC_LIMITS;
+  }
+};
@@ -0,0 +1,211 @@
+import type { Cipher, DeviceKey } from "./socket";
+
+/**
+ * Cifrado de extremo a extremo de los privados.
+ * Cada usuario tiene en este navegador un par ECDH P-256: la privada no se puede exportar y queda
+ * en IndexedDB; la pública se publica en el servidor. Con la pública del otro se deriva
+ * (ECDH + HKDF) una clave AES-GCM que solo conocen los dos: el servidor ve únicamente el cifrado.
+ * Cada mensaje se cifra una vez por dispositivo (los del contacto y los propios).
+ */
+const ECDH = { name: "ECDH", namedCurve: "P-256" } as const;
+const HKDF_INFO = new TextEncoder().encode("chat-dm-v1");
+
+const DB_NAME = "chat-e2e";
+const DB_STORE = "identities";
+
+export type Identity = { privateKey: CryptoKey; publicKey: string; fingerprint: string };
+
+// Lo que va cifrado: el texto y si es una acción (/me)
+export type PrivatePlaintext = { text: string; action?: boolean };
+
+const toBase64 = (buf: ArrayBuffer) => {
+  let bin = "";
+  for (const b of new Uint8Array(buf)) bin += String.fromCharCode(b);
+  return btoa(bin);
+};
+
+const fromBase64 = (b64: string) => Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+
+export const isSupported = () => typeof indexedDB !== "undefined" && !!globalThis.crypto?.subtle;
+
+const withStore = <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(DB_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const req = op(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.transaction?.addEventListener("complete", () => db.close());
+    };
+  });
+
+type StoredPair = { privateKey: CryptoKey; publicKey: CryptoKey };
+
+/** Huella para comparar por otro medio: SHA-256 de la clave pública, en grupos de 4 */
+export const fingerprintOf = async (publicKey: string) => {
+  const hash = await crypto.subtle.digest("SHA-256", fromBase64(publicKey));
+  const hex = Array.from(new Uint8Array(hash).slice(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+  return hex.toUpperCase().match(/.{4}/g)?.join(" ") ?? hex;
+};
+
+const identities = new Map<string, Promise<Identity>>();
+
+/** El par del usuario en este navegador; se genera la primera vez */
+export const loadIdentity = (username: string) => {
+  let identity = identities.get(username);
+  if (!identity) {
+    identity = (async () => {
+      let pair = await withStore<StoredPair | undefined>("readonly", (s) => s.get(username));
+      if (!pair) {
+        pair = (await crypto.subtle.generateKey(ECDH, false, ["deriveBits"])) as StoredPair;
+        await withStore("readwrite", (s) => s.put(pair, username));
+      }
+      const publicKey = toBase64(await crypto.subtle.exportKey("raw", pair.publicKey));
+      return { privateKey: pair.privateKey, publicKey, fingerprint: await fingerprintOf(publicKey) };
+    })();
+    identities.set(username, identity);
+    // Si falla se vuelve a intentar la próxima vez
+    identity.catch(() => identities.delete(username));
+  }
+  return identity;
+};
+
+/**
+ * Tras /nick el par sigue siendo el mismo, ahora con el nombre nuevo.
+ * El caché se mueve en el acto para que loadIdentity(to) no genere otro mientras se guarda.
+ */
+export const renameIdentity = async (from: string, to: string) => {
+  const identity = loadIdentity(from);
+  identities.set(to, identity);
+  identities.delete(from);
+  renameKnown(from, to);
+  await identity;
+  const pair = await withStore<StoredPair | undefined>("readonly", (s) => s.get(from));
+  if (!pair) return;
+  await withStore("readwrite", (s) => s.put(pair, to));
+  await withStore("readwrite", (s) => s.delete(from));
+};
+
+const sharedKeys = new Map<string, Promise<CryptoKey>>();
+
+const sharedKey = (me: string, peerPublicKey: string) => {
+  const id = `${me}\n${peerPublicKey}`;
+  let key = sharedKeys.get(id);
+  if (!key) {
+    key = (async () => {
+      const { privateKey } = await loadIdentity(me);
+      const peer = await crypto.subtle.importKey("raw", fromBase64(peerPublicKey), ECDH, false, []);
+      const bits = await crypto.subtle.deriveBits({ name: "ECDH", public: peer }, privateKey, 256);
+      const hkdf = await crypto.subtle.importKey("raw", bits, "HKDF", false, ["deriveKey"]);
+      return crypto.subtle.deriveKey(
+        { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(32), info: HKDF_INFO },
+        hkdf,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+    })();
+    sharedKeys.set(id, key);
+    key.catch(() => sharedKeys.delete(id));
+  }
+  return key;
+};
+
+export const encryptFor = async (me: string, to: DeviceKey, plain: PrivatePlaintext): Promise<Cipher> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await sharedKey(me, to.publicKey),
+    new TextEncoder().encode(JSON.stringify(plain))
+  );
+  return { device: to.device, iv: toBase64(iv.buffer), data: toBase64(data) };
+};
+
+/** Con la clave del dispositivo que lo envió. Falla si se cifró con otra clave o fue alterado */
+export const decryptFrom = async (me: string, senderPublicKey: string, cipher: Cipher): Promise<PrivatePlaintext> => {
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(cipher.iv) },
+    await sharedKey(me, senderPublicKey),
+    fromBase64(cipher.data)
+  );
+  const parsed = JSON.parse(new TextDecoder().decode(plain)) as Partial<PrivatePlaintext>;
+  if (typeof parsed.text !== "string") throw new Error("Contenido cifrado inválido");
+  return { text: parsed.text, ...(parsed.action ? { action: true } : {}) };
+};
+
+/**
+ * Huellas conocidas de cada contacto, una por dispositivo (las primeras vistas se aceptan solas).
+ * Si después aparece otra para el mismo nombre, hay que aceptarla a mano.
+ * También se guardan las de los otros dispositivos propios, con el nombre propio.
+ */
+const knownKey = (me: string) => `chat.e2e.known.${me}`;
+
+const readKnown = (me: string): Record<string, string[]> => {
+  try {
+    const known = JSON.parse(localStorage.getItem(knownKey(me)) ?? "{}") as Record<string, string | string[]>;
+    // Antes se guardaba una sola huella por contacto
+    return Object.fromEntries(Object.entries(known).map(([peer, f]) => [peer, typeof f === "string" ? [f] : f]));
+  } catch {
+    return {};
+  }
+};
+
+const trustFingerprints = (me: string, peer: string, fingerprints: string[]) => {
+  const known = readKnown(me);
+  known[peer] = Array.from(new Set([...(known[peer] ?? []), ...fingerprints]));
+  localStorage.setItem(knownKey(me), JSON.stringify(known));
+};
+
+// Las huellas conocidas se mudan con el nombre (propio o del contacto)
+const renameKnown = (from: string, to: string) => {
+  const known = localStorage.getItem(knownKey(from));
+  if (known === null) return;
+  localStorage.setItem(knownKey(to), known);
+  localStorage.removeItem(knownKey(from));
+};
+
+export const renamePeer = (me: string, from: string, to: string) => {
+  const { [from]: fingerprints, ...rest } = readKnown(me);
+  if (fingerprints) localStorage.setItem(knownKey(me), JSON.stringify({ ...rest, [to]: fingerprints }));
+};
+
+/**
+ * Claves de un contacto tal como las ve este cliente, una por dispositivo conectado
+ * (ninguna: no publicó y sus mensajes van sin cifrar). Las que no están aceptadas
+ * (trusted false) bloquean el envío hasta que se acepten. `missing`: ya tenía huellas
+ * conocidas y no publica ninguna; es un cambio de clave más, y bloquea hasta que se
+ * confirme el envío sin cifrar.
+ */
+export type PeerDevice = DeviceKey & { fingerprint: string; trusted: boolean };
+export type PeerKey = { devices: PeerDevice[]; missing?: boolean };
+
+export const hasUntrusted = (key: PeerKey) => key.devices.some((d) => !d.trusted);
+
+/** ¿Hay huellas conocidas de este contacto? Entonces lo que mande sin cifrar es sospechoso */
+export const isPinned = (me: string, peer: string) => peer !== me && !!readKnown(me)[peer]?.length;
+
+/** Las claves publicadas, comparadas con las huellas conocidas. La huella propia siempre vale */
+export const resolvePeerKey = async (me: string, peer: string, keys: DeviceKey[], own?: string): Promise<PeerKey> => {
+  const devices = await Promise.all(keys.map(async (k) => ({ ...k, fingerprint: await fingerprintOf(k.publicKey) })));
+  const known = readKnown(me)[peer];
+  if (!known?.length && devices.length > 0) trustFingerprints(me, peer, devices.map((d) => d.fingerprint));
+  const trusted = new Set([...(known?.length ? known : devices.map((d) => d.fingerprint)), ...(own ? [own] : [])]);
+  return {
+    devices: devices.map((d) => ({ ...d, trusted: trusted.has(d.fingerprint) })),
+    ...(devices.length === 0 && isPinned(me, peer) ? { missing: true } : {}),
+  };
+};
+
+export const trustPeerKey = (me: string, peer: string, key: PeerKey): PeerKey => {
+  trustFingerprints(me, peer, key.devices.map((d) => d.fingerprint));
+  return { devices: key.devices.map((d) => ({ ...d, trusted: true })) };
+};
+
+/**
+ * Confirmación de enviar sin cifrar a un contacto sin clave: vale mientras no cambien sus claves
+ * (las huellas conocidas se conservan, por si vuelve a publicar la misma)
+ */
+export const allowPlaintext = (key: PeerKey): PeerKey => ({ devices: key.devices });
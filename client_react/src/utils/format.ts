@@ -0,0 +1,7 @@
+/** Hora local "hh:mm" */
+export const fmtTime = (t: number) => {
+  const d = new Date(t);
+  const hh = d.getHours().toString().padStart(2, "0");
+  const mm = d.getMinutes().toString().padStart(2, "0");
+  return `${hh}:${mm}`;
+};
@@ -0,0 +1,173 @@
+/**
+ * Resaltado de sintaxis liviano para los bloques de código: comentarios, cadenas, números y
+ * palabras clave de los lenguajes más comunes. No pretende ser exacto, solo legible.
+ */
+export type TokenType = "plain" | "comment" | "string" | "number" | "keyword" | "literal" | "tag" | "added" | "removed";
+export type Token = { type: TokenType; text: string };
+
+type Rule = [TokenType, RegExp];
+
+const words = (type: TokenType, list: string) => [type, new RegExp(`\\b(?:${list.split(" ").join("|")})\\b`, "y")] as Rule;
+
+const LINE_COMMENT: Rule = ["comment", /\/\/[^\n]*/y];
+const BLOCK_COMMENT: Rule = ["comment", /\/\*[\s\S]*?(?:\*\/|$)/y];
+const HASH_COMMENT: Rule = ["comment", /#[^\n]*/y];
+const DOUBLE_QUOTED: Rule = ["string", /"(?:\\[\s\S]|[^"\\\n])*"?/y];
+const SINGLE_QUOTED: Rule = ["string", /'(?:\\[\s\S]|[^'\\\n])*'?/y];
+const BACKTICK: Rule = ["string", /`(?:\\[\s\S]|[^`\\])*`?/y];
+const NUMBER: Rule = ["number", /\b(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)\b/iy];
+
+const C_LIKE = [LINE_COMMENT, BLOCK_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, NUMBER];
+
+const JS: Rule[] = [
+  LINE_COMMENT,
+  BLOCK_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  BACKTICK,
+  NUMBER,
+  words("literal", "true false null undefined NaN this"),
+  words(
+    "keyword",
+    "async await break case catch class const continue default delete do else enum export extends finally for from function if implements import in instanceof interface let new of private protected public readonly return static super switch throw try type typeof var void while yield as"
+  ),
+];
+
+const LANGUAGES: Record<string, Rule[]> = {
+  js: JS,
+  python: [
+    HASH_COMMENT,
+    ["string", /(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/y],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    NUMBER,
+    words("literal", "True False None self"),
+    words(
+      "keyword",
+      "and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield"
+    ),
+  ],
+  bash: [
+    HASH_COMMENT,
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    ["literal", /\$(?:\{[^}\n]*\}|\w+)/y],
+    words("keyword", "if then else elif fi for while until do done case esac in function return export local sudo echo cd"),
+  ],
+  json: [DOUBLE_QUOTED, NUMBER, words("literal", "true false null")],
+  sql: [
+    ["comment", /--[^\n]*/y],
+    BLOCK_COMMENT,
+    SINGLE_QUOTED,
+    NUMBER,
+    [
+      "keyword",
+      /\b(?:select|from|where|and|or|not|insert|into|values|update|set|delete|create|table|drop|alter|index|join|left|right|inner|outer|on|group|by|order|having|limit|offset|as|distinct|null|is|in|like|primary|key|union|case|when|then|else|end)\b/iy,
+    ],
+  ],
+  rust: [
+    ...C_LIKE,
+    words("literal", "true false None Some Ok Err self Self"),
+    words(
+      "keyword",
+      "as async await break const continue crate else enum extern fn for if impl in let loop match mod move mut pub ref return static struct trait type unsafe use where while"
+    ),
+  ],
+  go: [
+    ...C_LIKE,
+    BACKTICK,
+    words("literal", "true false nil iota"),
+    words(
+      "keyword",
+      "break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var"
+    ),
+  ],
+  c: [
+    ...C_LIKE,
+    ["keyword", /#\s*\w+/y],
+    words("literal", "true false null nullptr NULL this"),
+    words(
+      "keyword",
+      "auto break case catch char class const continue default delete do double else enum extends final float for if implements import int long namespace new package private protected public return short static struct switch template throw throws try typedef union unsigned using virtual void volatile while"
+    ),
+  ],
+  css: [BLOCK_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, ["number", /-?\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms)?/y], ["keyword", /@[\w-]+/y]],
+  html: [
+    ["comment", /<!--[\s\S]*?(?:-->|$)/y],
+    ["tag", /<\/?[\w-]+|\/?>/y],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+  ],
+  yaml: [HASH_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, NUMBER, ["keyword", /[\w-]+(?=\s*:)/y], words("literal", "true false null yes no")],
+  diff: [
+    ["added", /\+[^\n]*/y],
+    ["removed", /-[^\n]*/y],
+    ["comment", /@@[^\n]*/y],
+  ],
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: "js",
+  jsx: "js",
+  ts: "js",
+  typescript: "js",
+  tsx: "js",
+  py: "python",
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  console: "bash",
+  rs: "rust",
+  golang: "go",
+  cpp: "c",
+  "c++": "c",
+  h: "c",
+  java: "c",
+  cs: "c",
+  csharp: "c",
+  "c#": "c",
+  kotlin: "c",
+  scss: "css",
+  xml: "html",
+  svg: "html",
+  yml: "yaml",
+  patch: "diff",
+};
+
+// En diff las reglas solo valen al principio de la línea
+const LINE_START_ONLY = new Set(["diff"]);
+
+/** Tokens del código; sin lenguaje conocido queda todo como texto plano */
+export const highlight = (code: string, lang?: string): Token[] => {
+  const name = lang ? ALIASES[lang] ?? lang : undefined;
+  const rules = name ? LANGUAGES[name] : undefined;
+  if (!rules) return [{ type: "plain", text: code }];
+  const lineStartOnly = LINE_START_ONLY.has(name ?? "");
+  const tokens: Token[] = [];
+  let plain = "";
+  let at = 0;
+  while (at < code.length) {
+    let matched: Token | null = null;
+    if (!lineStartOnly || at === 0 || code[at - 1] === "\n") {
+      for (const [type, re] of rules) {
+        re.lastIndex = at;
+        const m = re.exec(code);
+        if (m && m[0].length > 0) {
+          matched = { type, text: m[0] };
+          break;
+        }
+      }
+    }
+    if (!matched) {
+      plain += code[at];
+      at++;
+      continue;
+    }
+    if (plain) tokens.push({ type: "plain", text: plain });
+    plain = "";
+    tokens.push(matched);
+    at += matched.text.length;
+  }
+  if (plain) tokens.push({ type: "plain", text: plain });
+  return tokens;
+};
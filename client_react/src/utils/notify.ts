@@ -0,0 +1,42 @@
+/**
+ * Notificaciones del navegador para cuando la pestaña está en segundo plano.
+ * El nivel se guarda por usuario en este navegador.
+ */
+export type NotifyLevel = "all" | "mentions" | "none";
+
+export const NOTIFY_LABEL: Record<NotifyLevel, string> = {
+  all: "Todos los mensajes",
+  mentions: "Menciones y privados",
+  none: "Nada",
+};
+
+const storageKey = (username: string) => `chat.notify.${username}`;
+
+export const getNotifyLevel = (username: string): NotifyLevel => {
+  const stored = localStorage.getItem(storageKey(username));
+  return stored === "all" || stored === "none" ? stored : "mentions";
+};
+
+export const saveNotifyLevel = (username: string, level: NotifyLevel) => {
+  localStorage.setItem(storageKey(username), level);
+};
+
+export const canNotify = () => "Notification" in window;
+
+/** Pide permiso la primera vez; true si se puede notificar */
+export const requestNotifyPermission = async () => {
+  if (!canNotify()) return false;
+  if (Notification.permission === "default") await Notification.requestPermission();
+  return Notification.permission === "granted";
+};
+
+/** Muestra la notificación si hay permiso; al hacer clic vuelve a la pestaña */
+export const showNotification = (title: string, body: string, tag: string, onClick: () => void) => {
+  if (!canNotify() || Notification.permission !== "granted") return;
+  const n = new Notification(title, { body, tag });
+  n.onclick = () => {
+    window.focus();
+    onClick();
+    n.close();
+  };
+};
@@ -1,32 +1,158 @@
 import { io, Socket } from "socket.io-client";
+import { DEFAULT_PUBLIC_LIMITS, GLOBAL_ROOM, PROTOCOL_VERSION } from "../../../shared/protocol";
+import type {
+  ChatAck,
+  ChatOutPayload,
+  Cipher,
+  ClientToServerEvents,
+  DeviceInfo,
+  DeviceKey,
+  HistoryPage,
+  KeyInfo,
+  ModAction,
+  PrivateOutPayload,
+  ReactionUpdate,
+  RoomInfo,
+  SearchResults,
+  ServerError,
+  ServerToClientEvents,
+  SystemMessage,
+  ThreadPage,
+  TypingEvent,
+  UserInfo,
+  UserStatus,
+  WelcomePayload,
+} from "../../../shared/protocol";
 
-export type WelcomePayload = { username: string; connectedUsers: string[] };
-export type ChatOutPayload = { username: string; text: string; at: number };
+// Tipos y límites del protocolo: los mismos que usa el servidor
+export { DEFAULT_PUBLIC_LIMITS, GLOBAL_ROOM, isValidName, LIMITS, MENTION_PATTERN } from "../../../shared/protocol";
+export type {
+  AttachmentInfo,
+  ChatAck,
+  ChatOutPayload,
+  Cipher,
+  DeviceInfo,
+  DeviceKey,
+  HistoryPage,
+  KeyInfo,
+  ModAction,
+  PrivateOutPayload,
+  PublicConfig,
+  PublicLimits,
+  ReactionUpdate,
+  ReplyRef,
+  Role,
+  RoomInfo,
+  SearchHit,
+  SearchResults,
+  SearchSnippet,
+  ServerError,
+  SystemMessage,
+  ThreadPage,
+  TypingEvent,
+  UserInfo,
+  UserStatus,
+  WelcomePayload,
+} from "../../../shared/protocol";
 
-type ServerToClientEvents = {
-  welcome: (p: WelcomePayload) => void;
-  "chat:public": (p: ChatOutPayload) => void;
-  "users:list": (p: { users: string[] }) => void;
-  user_joined: (p: { username: string }) => void;
-  user_left: (p: { username: string }) => void;
-  "server:error": (p: { code: string; message: string }) => void;
-};
+// Filtros de la búsqueda (fechas en ms)
+export type SearchFilters = { room?: string; author?: string; since?: number; until?: number };
 
-type ClientToServerEvents = {
-  hello: (p: { username: string }) => void;
-  "chat:public": (p: { text: string }) => void;
-  "command:list": () => void;
-  "command:quit": () => void;
-};
+// Indicador de escritura: en una sala o en una conversación privada
+export type TypingTarget = { room: string } | { to: string };
+
+// Errores del servidor que hacen fallar el handshake
+const HANDSHAKE_ERRORS = ["USERNAME_TAKEN", "USERNAME_RESERVED", "INVALID_USERNAME", "INVALID_TOKEN", "HELLO_TIMEOUT", "BANNED", "PROTOCOL_MISMATCH", "TOO_MANY_SESSIONS"];
 
 let socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
 let intendedUsername = "";
+let lastWelcome: WelcomePayload | null = null;
+// Reanudación de sesión: token del último welcome y hora (del servidor) del último mensaje recibido
+let resumeToken: string | undefined;
+let lastMessageAt: number | undefined;
+let resumeInstalled = false;
+// true entre el welcome y la siguiente desconexión (el servidor ya acepta mensajes)
+let ready = false;
+
+/**
+ * Bandeja de salida: cada mensaje lleva un clientId (clave de idempotencia) y espera el ack
+ * del servidor. Sin conexión queda en cola y se envía al reconectar.
+ */
+export type OutboxStatus = "pending" | "sent" | "failed";
+export type OutboxEvent = { clientId: string; room: string; status: OutboxStatus; id?: string; error?: string };
+
+type OutboxEntry = {
+  clientId: string;
+  room: string;
+  text: string;
+  replyTo?: string;
+  attachments?: string[];
+  attempts: number;
+  inFlight: boolean;
+  failed: boolean;
+};
+
+const ACK_TIMEOUT_MS = 5000;
+const MAX_ATTEMPTS = 3;
+const outbox = new Map<string, OutboxEntry>();
+const outboxListeners = new Set<(e: OutboxEvent) => void>();
+const throttleListeners = new Set<(retryAfterMs: number) => void>();
+
+const notifyOutbox = (e: OutboxEvent) => outboxListeners.forEach((cb) => cb(e));
+const notifyThrottle = (retryAfterMs: number) => throttleListeners.forEach((cb) => cb(retryAfterMs));
+
+const sendEntry = (entry: OutboxEntry) => {
+  const s = socket;
+  if (!s || !s.connected || !ready || entry.inFlight || entry.failed) return;
+  entry.inFlight = true;
+  entry.attempts++;
+  s.timeout(ACK_TIMEOUT_MS).emit(
+    "chat:public",
+    {
+      text: entry.text,
+      room: entry.room,
+      clientId: entry.clientId,
+      ...(entry.replyTo ? { replyTo: entry.replyTo } : {}),
+      ...(entry.attachments ? { attachments: entry.attachments } : {}),
+    },
+    (err: Error | null, res: ChatAck) => {
+      entry.inFlight = false;
+      if (outbox.get(entry.clientId) !== entry) return;
+      if (err) {
+        // Sin respuesta a tiempo: se reintenta (el clientId evita duplicados)
+        if (entry.attempts >= MAX_ATTEMPTS) {
+          entry.failed = true;
+          notifyOutbox({ clientId: entry.clientId, room: entry.room, status: "failed", error: "Sin respuesta del servidor" });
+        } else {
+          sendEntry(entry);
+        }
+        return;
+      }
+      if (res.ok) {
+        outbox.delete(entry.clientId);
+        notifyOutbox({ clientId: entry.clientId, room: entry.room, status: "sent", id: res.id });
+      } else if (res.code === "RATE_LIMITED") {
+        // Limitado por el servidor: sigue pendiente y se reenvía cuando se pueda
+        entry.attempts--;
+        const wait = res.retryAfterMs ?? 1000;
+        notifyThrottle(wait);
+        setTimeout(() => sendEntry(entry), wait);
+      } else {
+        entry.failed = true;
+        notifyOutbox({ clientId: entry.clientId, room: entry.room, status: "failed", error: res.message });
+      }
+    }
+  );
+};
+
+const flushOutbox = () => outbox.forEach(sendEntry);
 
-const defaultUrl = (): string => {
+export const defaultUrl = (): string => {
   const env = (import.meta as any).env?.VITE_SOCKET_URL as string | undefined;
   if (env && env.trim()) return env;
-  const host = "192.168.0.131";
-  return `http://${host}:3000`;
+  // Por defecto, el mismo host que sirve la página (con TLS si la página va por HTTPS)
+  const secure = window.location.protocol === "https:";
+  return `${secure ? "https" : "http"}://${window.location.hostname}:3000`;
 };
 
 const ensureSocket = (url?: string) => {
@@ -35,30 +161,74 @@ const ensureSocket = (url?: string) => {
     transports: ["websocket"],
     autoConnect: false,
   });
+  socket.on("server:error", (e) => {
+    if (e.code === "RATE_LIMITED") notifyThrottle(e.retryAfterMs ?? 1000);
+  });
   return socket;
 };
 
-export const connect = (username: string, url?: string): Promise<WelcomePayload> => {
+/**
+ * Tras el primer welcome: cada reconexión automática de Socket.IO repite el hello
+ * con el resumeToken para recuperar la misma sesión.
+ */
+const installResume = (s: Socket<ServerToClientEvents, ClientToServerEvents>) => {
+  if (resumeInstalled) return;
+  resumeInstalled = true;
+  s.on("connect", () => {
+    s.emit("hello", {
+      username: intendedUsername,
+      protocol: PROTOCOL_VERSION,
+      ...(resumeToken ? { resumeToken } : {}),
+      ...(lastMessageAt !== undefined ? { since: lastMessageAt } : {}),
+    });
+  });
+  s.on("welcome", (w) => {
+    lastWelcome = w;
+    resumeToken = w.resumeToken;
+    ready = true;
+    flushOutbox();
+  });
+  s.on("disconnect", () => {
+    ready = false;
+  });
+  s.on("chat:public", (m) => {
+    lastMessageAt = Math.max(lastMessageAt ?? 0, m.at);
+  });
+  // Tras un /nick la reanudación tiene que pedir el nombre nuevo
+  s.on("user_renamed", (p) => {
+    if (p.from === intendedUsername) intendedUsername = p.to;
+  });
+};
+
+/**
+ * Conecta y hace el handshake. Con `token` entra con la cuenta registrada; sin él, como invitado.
+ */
+export const connect = (username: string, token?: string, url?: string): Promise<WelcomePayload> => {
   intendedUsername = username.trim();
   const s = ensureSocket(url);
+  s.auth = token ? { token } : {};
 
   return new Promise<WelcomePayload>((resolve, reject) => {
     const onWelcome = (payload: WelcomePayload) => {
+      lastWelcome = payload;
+      resumeToken = payload.resumeToken;
+      ready = true;
       cleanup();
+      installResume(s);
       resolve(payload);
     };
     const onConnectError = (err: any) => {
       cleanup();
       reject(err instanceof Error ? err : new Error("connect_error"));
     };
-    const onServerError = (e: { code: string; message: string }) => {
-      if (e.code === "USERNAME_TAKEN" || e.code === "INVALID_USERNAME" || e.code === "HELLO_TIMEOUT") {
+    const onServerError = (e: ServerError) => {
+      if (HANDSHAKE_ERRORS.includes(e.code)) {
         cleanup();
         reject(new Error(e.message));
       }
     };
     const onConnect = () => {
-      s.emit("hello", { username: intendedUsername });
+      s.emit("hello", { username: intendedUsername, protocol: PROTOCOL_VERSION });
     };
     const cleanup = () => {
       s.off("welcome", onWelcome);
@@ -73,7 +243,7 @@ export const connect = (username: string, url?: string): Promise<WelcomePayload>
     s.on("server:error", onServerError);
 
     if (!s.connected) s.connect();
-    else s.emit("hello", { username: intendedUsername });
+    else s.emit("hello", { username: intendedUsername, protocol: PROTOCOL_VERSION });
   });
 };
 
@@ -82,18 +252,216 @@ export const disconnect = () => {
   socket.removeAllListeners();
   socket.disconnect();
   socket = null;
+  lastWelcome = null;
+  resumeToken = undefined;
+  lastMessageAt = undefined;
+  resumeInstalled = false;
+  ready = false;
+  outbox.clear();
+};
+
+/**
+ * Encola un mensaje para la sala y devuelve su clientId. El estado llega por onOutbox.
+ * `replyTo` es el id del mensaje al que se responde; `attachments`, ids de adjuntos ya subidos.
+ */
+export const sendMessage = (
+  text: string,
+  room: string = GLOBAL_ROOM,
+  opts: { replyTo?: string; attachments?: string[] } = {}
+): string => {
+  if (!socket) throw new Error("Socket no inicializado");
+  const entry: OutboxEntry = {
+    clientId: crypto.randomUUID(),
+    room,
+    text,
+    ...(opts.replyTo ? { replyTo: opts.replyTo } : {}),
+    ...(opts.attachments?.length ? { attachments: opts.attachments } : {}),
+    attempts: 0,
+    inFlight: false,
+    failed: false,
+  };
+  outbox.set(entry.clientId, entry);
+  sendEntry(entry);
+  return entry.clientId;
+};
+
+/** Vuelve a intentar un mensaje que quedó como fallido */
+export const retryMessage = (clientId: string) => {
+  const entry = outbox.get(clientId);
+  if (!entry) return;
+  entry.failed = false;
+  entry.attempts = 0;
+  notifyOutbox({ clientId, room: entry.room, status: "pending" });
+  sendEntry(entry);
+};
+
+/** Avisos de rate limiting: cuántos ms hay que esperar para volver a enviar */
+export const onThrottled = (cb: (retryAfterMs: number) => void) => {
+  throttleListeners.add(cb);
+  return () => {
+    throttleListeners.delete(cb);
+  };
+};
+
+export const onOutbox = (cb: (e: OutboxEvent) => void) => {
+  outboxListeners.add(cb);
+  return () => {
+    outboxListeners.delete(cb);
+  };
+};
+
+/** Solo el autor o un moderador; el resultado llega por onMessageUpdated */
+export const editMessage = (id: string, text: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("chat:edit", { id, text });
+};
+
+export const deleteMessage = (id: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("chat:delete", { id });
+};
+
+/** El estado agregado de las reacciones llega por onReactions */
+export const addReaction = (id: string, emoji: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("reaction:add", { id, emoji });
+};
+
+export const removeReaction = (id: string, emoji: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("reaction:remove", { id, emoji });
+};
+
+export const sendPrivate = (to: string, text: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("chat:private", { to, text });
+};
+
+/** Un cifrado por dispositivo (del contacto y propios) */
+export const sendPrivateCipher = (to: string, ciphers: Cipher[]) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("chat:private", { to, ciphers });
+};
+
+/** Publica la clave pública de este dispositivo (para que nos escriban cifrado) */
+export const publishKey = (publicKey: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("keys:publish", { publicKey });
+};
+
+/** Claves públicas de los dispositivos de un usuario conectado; vacío si no tiene o no respondió */
+export const fetchPublicKeys = (username: string): Promise<DeviceKey[]> => {
+  const s = socket;
+  if (!s) return Promise.reject(new Error("Socket no inicializado"));
+  return new Promise((resolve) => {
+    s.timeout(ACK_TIMEOUT_MS).emit("keys:fetch", { username }, (err: Error | null, res: KeyInfo) => {
+      resolve(!err && Array.isArray(res?.keys) ? res.keys : []);
+    });
+  });
+};
+
+/** Dispositivos conectados con la misma cuenta (la respuesta llega por onSessionsList) */
+export const listSessions = () => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("sessions:list");
+};
+
+/** Cierra otro dispositivo; sin id, todos menos este */
+export const revokeSession = (id?: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("sessions:revoke", id ? { id } : {});
+};
+
+/** El servidor corta solo el indicador si no se repite en unos segundos */
+export const startTyping = (target: TypingTarget) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("typing:start", target);
+};
+
+export const stopTyping = (target: TypingTarget) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("typing:stop", target);
+};
+
+export const setStatus = (status: UserStatus) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("status:set", { status });
+};
+
+export const requestUsers = (room: string = GLOBAL_ROOM) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("command:list", { room });
+};
+
+export const createRoom = (room: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("room:create", { room });
+};
+
+export const joinRoom = (room: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("room:join", { room });
 };
 
-export const sendMessage = (text: string) => {
+export const leaveRoom = (room: string) => {
   const s = socket;
   if (!s) throw new Error("Socket no inicializado");
-  s.emit("chat:public", { text });
+  s.emit("room:leave", { room });
 };
 
-export const requestUsers = () => {
+export const fetchHistory = (room: string, before?: string, limit?: number) => {
   const s = socket;
   if (!s) throw new Error("Socket no inicializado");
-  s.emit("command:list");
+  s.emit("history:fetch", { room, ...(before ? { before } : {}), ...(limit ? { limit } : {}) });
+};
+
+/** Mensajes posteriores a `after` (para volver al presente tras saltar a uno viejo) */
+export const fetchNewer = (room: string, after: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("history:fetch", { room, after });
+};
+
+/** Los mensajes alrededor de `id`; la página llega por onHistoryPage con `around` */
+export const fetchAround = (room: string, id: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("history:fetch", { room, around: id });
+};
+
+/** Búsqueda en las salas en las que estamos; la siguiente página se pide con `before` */
+export const searchMessages = (q: string, filters: SearchFilters, before?: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("search:query", { q, ...filters, ...(before ? { before } : {}) });
+};
+
+/** Un mensaje con todas sus respuestas; llega por onThreadPage */
+export const fetchThread = (id: string) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("thread:fetch", { id });
+};
+
+export const requestRooms = () => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("room:list");
 };
 
 export const quit = () => {
@@ -102,6 +470,16 @@ export const quit = () => {
   s.emit("command:quit");
 };
 
+/**
+ * Comandos de barra: se manda la línea tal cual y el servidor la interpreta.
+ * `target` es la sala o conversación privada desde la que se ejecuta (para /me y /listar).
+ */
+export const runCommand = (input: string, target: TypingTarget) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.emit("command:run", { input, ...target });
+};
+
 export const onChat = (cb: (m: ChatOutPayload) => void) => {
   const s = socket;
   if (!s) throw new Error("Socket no inicializado");
@@ -109,37 +487,161 @@ export const onChat = (cb: (m: ChatOutPayload) => void) => {
   return () => s.off("chat:public", cb);
 };
 
-export const onUsersList = (cb: (users: string[]) => void) => {
+/** Mensaje editado o borrado (lápida): reemplaza al que tenga el mismo id */
+export const onMessageUpdated = (cb: (m: ChatOutPayload) => void) => {
   const s = socket;
   if (!s) throw new Error("Socket no inicializado");
-  const handler = (p: { users: string[] }) => cb(p.users);
+  s.on("chat:updated", cb);
+  return () => s.off("chat:updated", cb);
+};
+
+export const onReactions = (cb: (u: ReactionUpdate) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("reaction:update", cb);
+  return () => s.off("reaction:update", cb);
+};
+
+export const onPrivate = (cb: (m: PrivateOutPayload) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("chat:private", cb);
+  return () => s.off("chat:private", cb);
+};
+
+export const onKeyChanged = (cb: (k: KeyInfo) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("keys:changed", cb);
+  return () => s.off("keys:changed", cb);
+};
+
+export const onSessionsList = (cb: (sessions: DeviceInfo[]) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  const handler = (p: { sessions: DeviceInfo[] }) => cb(p.sessions);
+  s.on("sessions:list", handler);
+  return () => s.off("sessions:list", handler);
+};
+
+export const onUsersList = (cb: (users: UserInfo[], room: string) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  const handler = (p: { room: string; users: UserInfo[] }) => cb(p.users, p.room);
   s.on("users:list", handler);
   return () => s.off("users:list", handler);
 };
 
-export const onUserJoined = (cb: (username: string) => void) => {
+export const onRoomsList = (cb: (rooms: RoomInfo[]) => void) => {
   const s = socket;
   if (!s) throw new Error("Socket no inicializado");
-  const handler = (p: { username: string }) => cb(p.username);
+  const handler = (p: { rooms: RoomInfo[] }) => cb(p.rooms);
+  s.on("rooms:list", handler);
+  return () => s.off("rooms:list", handler);
+};
+
+export const onRoomJoined = (cb: (room: string, users: UserInfo[], history: ChatOutPayload[]) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  const handler = (p: { room: string; users: UserInfo[]; history: ChatOutPayload[] }) => cb(p.room, p.users, p.history);
+  s.on("room:joined", handler);
+  return () => s.off("room:joined", handler);
+};
+
+export const onHistoryPage = (cb: (page: HistoryPage) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("history:page", cb);
+  return () => s.off("history:page", cb);
+};
+
+export const onSearchResults = (cb: (results: SearchResults) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("search:results", cb);
+  return () => s.off("search:results", cb);
+};
+
+export const onThreadPage = (cb: (page: ThreadPage) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("thread:page", cb);
+  return () => s.off("thread:page", cb);
+};
+
+export const onRoomLeft = (cb: (room: string) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  const handler = (p: { room: string }) => cb(p.room);
+  s.on("room:left", handler);
+  return () => s.off("room:left", handler);
+};
+
+export const onUserJoined = (cb: (username: string, room: string) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  const handler = (p: { username: string; room: string }) => cb(p.username, p.room);
   s.on("user_joined", handler);
   return () => s.off("user_joined", handler);
 };
 
-export const onUserLeft = (cb: (username: string) => void) => {
+export const onUserLeft = (cb: (username: string, room: string) => void) => {
   const s = socket;
   if (!s) throw new Error("Socket no inicializado");
-  const handler = (p: { username: string }) => cb(p.username);
+  const handler = (p: { username: string; room: string }) => cb(p.username, p.room);
   s.on("user_left", handler);
   return () => s.off("user_left", handler);
 };
 
-export const onServerError = (cb: (err: { code: string; message: string }) => void) => {
+export const onSystemMessage = (cb: (m: SystemMessage) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("system:message", cb);
+  return () => s.off("system:message", cb);
+};
+
+export const onUserRenamed = (cb: (from: string, to: string) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  const handler = (p: { from: string; to: string }) => cb(p.from, p.to);
+  s.on("user_renamed", handler);
+  return () => s.off("user_renamed", handler);
+};
+
+export const onServerError = (cb: (err: ServerError) => void) => {
   const s = socket;
   if (!s) throw new Error("Socket no inicializado");
   s.on("server:error", cb);
   return () => s.off("server:error", cb);
 };
 
+export const onModAction = (cb: (a: ModAction) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("mod:action", cb);
+  return () => s.off("mod:action", cb);
+};
+
+export const onTyping = (cb: (e: TypingEvent, typing: boolean) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  const start = (e: TypingEvent) => cb(e, true);
+  const stop = (e: TypingEvent) => cb(e, false);
+  s.on("typing:start", start);
+  s.on("typing:stop", stop);
+  return () => {
+    s.off("typing:start", start);
+    s.off("typing:stop", stop);
+  };
+};
+
+export const onPresence = (cb: (u: UserInfo) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  s.on("presence", cb);
+  return () => s.off("presence", cb);
+};
+
 export const onDisconnect = (cb: (reason: string) => void) => {
   const s = socket;
   if (!s) throw new Error("Socket no inicializado");
@@ -147,5 +649,24 @@ export const onDisconnect = (cb: (reason: string) => void) => {
   return () => s.off("disconnect", cb);
 };
 
+/** Welcome de una sesión reanudada tras una reconexión automática */
+export const onResumed = (cb: (w: WelcomePayload) => void) => {
+  const s = socket;
+  if (!s) throw new Error("Socket no inicializado");
+  const handler = (w: WelcomePayload) => {
+    if (w.resumed) cb(w);
+  };
+  s.on("welcome", handler);
+  return () => s.off("welcome", handler);
+};
+
 export const isConnected = () => !!socket && socket.connected;
-export const getCurrentUsername = () => intendedUsername || "";
\ No newline at end of file
+/** Token de la sesión actual (autentica las subidas por HTTP) */
+export const getSessionToken = () => resumeToken;
+export const getCurrentUsername = () => intendedUsername || "";
+export const getWelcome = () => lastWelcome;
+// Este dispositivo dentro de la sesión (ver DeviceInfo)
+export const getDevice = () => lastWelcome?.device;
+
+// Límites que anunció el servidor (los por defecto hasta el primer welcome)
+export const getLimits = () => lastWelcome?.limits ?? DEFAULT_PUBLIC_LIMITS;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import type { AttachmentInfo } from "./socket";
+import { defaultUrl, getSessionToken } from "./socket";
+
+type ErrorBody = { error?: { code?: string; message?: string } };
+
+export const attachmentUrl = (id: string) => `${defaultUrl()}/uploads/${id}`;
+
+export const isImage = (a: AttachmentInfo) => a.mime.startsWith("image/");
+
+export const fmtSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Sube un archivo con la sesión actual. XMLHttpRequest (y no fetch) para poder informar el progreso.
+ */
+export const uploadFile = (file: File, onProgress: (percent: number) => void): Promise<AttachmentInfo> =>
+  new Promise((resolve, reject) => {
+    const token = getSessionToken();
+    if (!token) return reject(new Error("No hay sesión activa"));
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${defaultUrl()}/uploads`);
+    xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    xhr.setRequestHeader("Content-Type", file.type || "application/octet-stream");
+    xhr.setRequestHeader("X-Filename", encodeURIComponent(file.name || "archivo"));
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => {
+      let data: AttachmentInfo & ErrorBody = {} as AttachmentInfo & ErrorBody;
+      try {
+        data = JSON.parse(xhr.responseText) as AttachmentInfo & ErrorBody;
+      } catch {
+        // respuesta sin JSON: se informa el código HTTP
+      }
+      if (xhr.status >= 200 && xhr.status < 300) resolve(data);
+      else reject(new Error(data.error?.message ?? `Error HTTP ${xhr.status}`));
+    };
+    xhr.onerror = () => reject(new Error("Error de red subiendo el archivo"));
+    xhr.send(file);
+  });
@@ -14,6 +14,8 @@ export default defineConfig({
   server: {
     host: true,         // escucha en 0.0.0.0
     port: 5173,
-    strictPort: true
+    strictPort: true,
+    // El protocolo compartido con el servidor vive fuera del proyecto (../shared)
+    fs: { allow: ['..'] }
   }
 })
\ No newline at end of file
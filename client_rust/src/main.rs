@@ -4,6 +4,9 @@ use serde::Deserialize;
 use serde_json::{json, Value};
 use std::io::{self, Write};
 
+// Versión del protocolo que habla este cliente (ver shared/protocol.ts)
+const PROTOCOL_VERSION: u32 = 1;
+
 #[derive(Debug, Deserialize)]
 struct WelcomePayload {
     username: String,
@@ -47,13 +50,13 @@ fn main() -> Result<(), Box<dyn std::error::Error>> {
     //Pedimos IP/host, puerto y username
     println!("=== Cliente CLI en Rust para Chat por Socket.IO ===");
 
-    let host = read_line("Host/IP del servidor", Some("192.168.0.131"));
+    let host = read_line("Host/IP del servidor", Some("localhost"));
     let port = read_line("Puerto", Some("3000"));
     let username = loop {
-        let u = read_line("Username (3–20, a-z0-9_-)", None);
+        // El largo permitido lo configura el servidor: acá solo el formato
+        let u = read_line("Username (a-z0-9_-)", None);
         let ok = !u.is_empty()
-            && u.len() >= 3
-            && u.len() <= 20
+            && u.len() <= 32
             && u.chars()
                 .all(|c| c.is_ascii_alphanumeric() || c == '_' || c == '-');
         if ok {
@@ -68,6 +71,7 @@ fn main() -> Result<(), Box<dyn std::error::Error>> {
 
     //Armamos el cliente y registramos listeners
     let mut connected_ok = false;
+    let me = username.clone();
 
     let socket = ClientBuilder::new(url.as_str())
        .transport_type(TransportType::Websocket)
@@ -96,7 +100,7 @@ fn main() -> Result<(), Box<dyn std::error::Error>> {
             }
         })
         // Mensajes públicos
-        .on("chat:public", |payload, _| {
+        .on("chat:public", move |payload, _| {
             if let Some(v) = parse_payload_to_json(payload) {
                 let user = v.get("username").and_then(|x| x.as_str()).unwrap_or("¿?");
                 let text = v.get("text").and_then(|x| x.as_str()).unwrap_or("");
@@ -109,16 +113,50 @@ fn main() -> Result<(), Box<dyn std::error::Error>> {
                 } else {
                     "--:--".to_string()
                 };
-                println!("[{}] {}: {}", ts, user, text);
+                // Los bots (webhooks) llevan una marca para no confundirlos con usuarios
+                let bot = if v.get("bot").and_then(|x| x.as_bool()).unwrap_or(false) {
+                    " [BOT]"
+                } else {
+                    ""
+                };
+                // Nos mencionaron con @: campanita de la terminal y marca al principio
+                let mentioned = v
+                    .get("mentions")
+                    .and_then(|x| x.as_array())
+                    .map(|arr| arr.iter().any(|n| n.as_str() == Some(me.as_str())))
+                    .unwrap_or(false);
+                let mark = if mentioned { "\x07🔔 " } else { "" };
+                if v.get("action").and_then(|x| x.as_bool()).unwrap_or(false) {
+                    println!("{}[{}] * {}{} {}", mark, ts, user, bot, text);
+                } else {
+                    println!("{}[{}] {}{}: {}", mark, ts, user, bot, text);
+                }
+            }
+        })
+        // Salida de los comandos (/help, /whois…): solo la vemos nosotros
+        .on("system:message", |payload, _| {
+            if let Some(v) = parse_payload_to_json(payload) {
+                let text = v.get("text").and_then(|x| x.as_str()).unwrap_or("");
+                for line in text.lines() {
+                    println!("ℹ️  {}", line);
+                }
             }
         })
         // Listado de usuarios
         .on("users:list", |payload, _| {
             if let Some(v) = parse_payload_to_json(payload) {
                 if let Some(arr) = v.get("users").and_then(|x| x.as_array()) {
+                    // Cada usuario viene como { username, status, lastSeen }
                     let users: Vec<String> = arr
                         .iter()
-                        .filter_map(|x| x.as_str().map(|s| s.to_string()))
+                        .filter_map(|x| {
+                            let name = x.get("username").and_then(|n| n.as_str())?;
+                            match x.get("status").and_then(|s| s.as_str()) {
+                                Some("away") => Some(format!("{} (ausente)", name)),
+                                Some("busy") => Some(format!("{} (ocupado)", name)),
+                                _ => Some(name.to_string()),
+                            }
+                        })
                         .collect();
                     println!("👥 Conectados: {}", if users.is_empty() { "—".into() } else { users.join(", ") });
                 } else {
@@ -139,6 +177,13 @@ fn main() -> Result<(), Box<dyn std::error::Error>> {
                 println!("➖ {} salió", u);
             }
         })
+        .on("user_renamed", |payload, _| {
+            if let Some(v) = parse_payload_to_json(payload) {
+                let from = v.get("from").and_then(|x| x.as_str()).unwrap_or("¿?");
+                let to = v.get("to").and_then(|x| x.as_str()).unwrap_or("¿?");
+                println!("✏️  {} ahora se llama {}", from, to);
+            }
+        })
         // Errores que emite tu servidor (server:error)
         .on("server:error", |payload, _| {
             if let Some(v) = parse_payload_to_json(payload) {
@@ -159,11 +204,11 @@ fn main() -> Result<(), Box<dyn std::error::Error>> {
         .connect()?;
 
     // 3) Enviamos el "hello" (handshake) con el username
-    socket.emit("hello", json!({ "username": username }))?;
+    socket.emit("hello", json!({ "username": username, "protocol": PROTOCOL_VERSION }))?;
     connected_ok = true;
 
     println!("———\nEscribe mensajes y Enter para enviar.");
-    println!("Comandos: /listar  (lista usuarios) | /quitar (sale)\n———");
+    println!("Comandos: /help (lista de comandos) | /quitar (sale)\n———");
 
     // 4) Loop de stdin para enviar mensajes o comandos
     let mut line = String::new();
@@ -176,14 +221,14 @@ fn main() -> Result<(), Box<dyn std::error::Error>> {
             continue;
         }
 
-        if txt == "/listar" {
-            socket.emit("command:list", json!({}))?;
+        // Los comandos los interpreta el servidor
+        if txt.starts_with('/') {
+            socket.emit("command:run", json!({ "input": txt }))?;
+            if txt == "/quitar" {
+                break;
+            }
             continue;
         }
-        if txt == "/quitar" {
-            socket.emit("command:quit", json!({}))?;
-            break;
-        }
 
         // mensaje público
         socket.emit("chat:public", json!({ "text": txt }))?;
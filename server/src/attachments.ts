@@ -0,0 +1,99 @@
+import { randomUUID } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import { access, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AttachmentInfo } from '../../shared/protocol';
+
+/** Lo que viaja en los mensajes es AttachmentInfo (sin datos internos) */
+export type Attachment = AttachmentInfo & { uploader: string; at: number };
+
+// Sin SVG ni HTML: se sirven desde el mismo origen que la API
+export const ALLOWED_MIME = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'text/plain',
+  'application/pdf',
+  'application/zip',
+]);
+
+export const isImage = (mime: string) => mime.startsWith('image/');
+
+/** Nombre seguro para mostrar y para Content-Disposition */
+export const sanitizeFilename = (raw: string) => {
+  const base = raw.split(/[\\/]/).pop() ?? '';
+  const clean = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, 200);
+  return clean || 'archivo';
+};
+
+export const toInfo = ({ id, name, mime, size }: Attachment): AttachmentInfo => ({ id, name, mime, size });
+
+export interface AttachmentStore {
+  save(input: { name: string; mime: string; data: Buffer; uploader: string }): Promise<Attachment>;
+  get(id: string): Promise<Attachment | undefined>;
+  /** Ruta del contenido en disco (undefined si no existe) */
+  file(id: string): Promise<string | undefined>;
+}
+
+const isId = (id: string) => /^[0-9a-f-]{36}$/.test(id);
+
+// Metadatos recordados en memoria (no cambian nunca; los más viejos se olvidan)
+const CACHE_MAX = 1000;
+
+/**
+ * Adjuntos en disco: "<id>" con el contenido y "<id>.json" con los metadatos.
+ * Con varias instancias `dir` tiene que ser un directorio compartido (un volumen de red):
+ * los metadatos se escriben al final y de una vez, así quien los ve ya puede servir el contenido.
+ */
+export const createFileAttachmentStore = (dir: string): AttachmentStore => {
+  mkdirSync(dir, { recursive: true });
+  const cache = new Map<string, Attachment>();
+
+  const remember = (attachment: Attachment) => {
+    cache.set(attachment.id, attachment);
+    if (cache.size > CACHE_MAX) {
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) cache.delete(oldest);
+    }
+  };
+
+  return {
+    async save({ name, mime, data, uploader }) {
+      const attachment: Attachment = { id: randomUUID(), name, mime, size: data.length, uploader, at: Date.now() };
+      const metaFile = join(dir, `${attachment.id}.json`);
+      await writeFile(join(dir, attachment.id), data);
+      await writeFile(`${metaFile}.tmp`, JSON.stringify(attachment));
+      await rename(`${metaFile}.tmp`, metaFile);
+      remember(attachment);
+      return attachment;
+    },
+
+    async get(id) {
+      if (!isId(id)) return undefined;
+      const cached = cache.get(id);
+      if (cached) return cached;
+      let raw: string;
+      try {
+        raw = await readFile(join(dir, `${id}.json`), 'utf8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw err;
+      }
+      const attachment = JSON.parse(raw) as Attachment;
+      remember(attachment);
+      return attachment;
+    },
+
+    async file(id) {
+      if (!isId(id)) return undefined;
+      const path = join(dir, id);
+      try {
+        await access(path);
+        return path;
+      } catch {
+        return undefined;
+      }
+    },
+  };
+};
@@ -0,0 +1,197 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { promisify } from 'node:util';
+import type { Role } from './moderation';
+import type { RedisClient } from './presence';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 días
+
+// `role` se edita a mano en el archivo de cuentas (por defecto: user)
+export type Account = {
+  username: string;
+  passwordHash: string;
+  createdAt: number;
+  role?: Role;
+  // `iat` de los tokens de sesiones cerradas desde otro dispositivo (hasta que vencen)
+  revokedTokens?: number[];
+};
+
+export type TokenClaims = { sub: string; iat: number; exp: number };
+
+/**
+ * Hash de contraseña con scrypt: "scrypt$<salt hex>$<hash hex>"
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+/**
+ * Tokens firmados con HMAC-SHA256: "<claims base64url>.<firma base64url>"
+ */
+export const signToken = (username: string, secret: string, now = Date.now()): string => {
+  const claims: TokenClaims = { sub: username, iat: now, exp: now + TOKEN_TTL_MS };
+  const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const sig = createHmac('sha256', secret).update(body).digest('base64url');
+  return `${body}.${sig}`;
+};
+
+export const verifyToken = (token: unknown, secret: string, now = Date.now()): TokenClaims | null => {
+  if (typeof token !== 'string') return null;
+  const [body, sig] = token.split('.');
+  if (!body || !sig) return null;
+  const expected = Buffer.from(createHmac('sha256', secret).update(body).digest('base64url'));
+  const actual = Buffer.from(sig);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as TokenClaims;
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp < now) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Secreto de firma: AUTH_SECRET o uno aleatorio persistido en el directorio de datos
+ */
+export const loadSecret = (file: string): string => {
+  const fromEnv = process.env.AUTH_SECRET;
+  if (fromEnv && fromEnv.trim()) return fromEnv.trim();
+  if (existsSync(file)) return readFileSync(file, 'utf8').trim();
+  const secret = randomBytes(32).toString('hex');
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, secret, { mode: 0o600 });
+  return secret;
+};
+
+/**
+ * Con varias instancias el secreto tiene que ser el mismo en todas: AUTH_SECRET o uno aleatorio
+ * guardado en Redis por la primera que arranca
+ */
+export const loadSharedSecret = async (client: RedisClient, prefix = 'chat:'): Promise<string> => {
+  const fromEnv = process.env.AUTH_SECRET;
+  if (fromEnv && fromEnv.trim()) return fromEnv.trim();
+  const key = `${prefix}auth-secret`;
+  await client.set(key, randomBytes(32).toString('hex'), { condition: 'NX' });
+  const secret = await client.get(key);
+  if (!secret) throw new Error(`No se pudo leer ${key} de Redis`);
+  return secret;
+};
+
+export interface AccountStore {
+  has(username: string): Promise<boolean>;
+  get(username: string): Promise<Account | undefined>;
+  /** Crea la cuenta; devuelve null si el nombre ya está registrado */
+  create(username: string, password: string): Promise<Account | null>;
+  /** Devuelve la cuenta si la contraseña es correcta */
+  authenticate(username: string, password: string): Promise<Account | null>;
+  /** Invalida el token emitido en `iat` antes de que venza */
+  revokeToken(username: string, iat: number): Promise<void>;
+  isRevoked(claims: TokenClaims): Promise<boolean>;
+}
+
+/**
+ * Cuentas registradas en un archivo JSON local
+ */
+export const createFileAccountStore = (file: string): AccountStore => {
+  const accounts = new Map<string, Account>();
+
+  if (existsSync(file)) {
+    const list = JSON.parse(readFileSync(file, 'utf8')) as Account[];
+    for (const acc of list) accounts.set(acc.username, acc);
+  }
+
+  const persist = () => {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(Array.from(accounts.values()), null, 2));
+  };
+
+  return {
+    has: async (username) => accounts.has(username),
+    get: async (username) => accounts.get(username),
+
+    async create(username, password) {
+      const passwordHash = await hashPassword(password);
+      // Se vuelve a comprobar tras el await por si hubo un alta concurrente
+      if (accounts.has(username)) return null;
+      const account: Account = { username, passwordHash, createdAt: Date.now() };
+      accounts.set(username, account);
+      persist();
+      return account;
+    },
+
+    async authenticate(username, password) {
+      const account = accounts.get(username);
+      if (!account) return null;
+      return (await verifyPassword(password, account.passwordHash)) ? account : null;
+    },
+
+    async revokeToken(username, iat) {
+      const account = accounts.get(username);
+      if (!account) return;
+      // Los ya vencidos no hace falta recordarlos
+      const since = Date.now() - TOKEN_TTL_MS;
+      account.revokedTokens = [...(account.revokedTokens ?? []).filter((t) => t > since && t !== iat), iat];
+      persist();
+    },
+
+    isRevoked: async (claims) => accounts.get(claims.sub)?.revokedTokens?.includes(claims.iat) ?? false,
+  };
+};
+
+/**
+ * Cuentas compartidas entre instancias. Claves (con `prefix`):
+ *   accounts          hash nombre -> cuenta (JSON, sin `revokedTokens`; `role` se edita ahí)
+ *   revoked:<nombre>  sorted set con los `iat` revocados (puntaje: cuándo vencen)
+ */
+export const createRedisAccountStore = (client: RedisClient, prefix = 'chat:'): AccountStore => {
+  const accountsKey = `${prefix}accounts`;
+  const revokedKey = (u: string) => `${prefix}revoked:${u}`;
+
+  const get = async (username: string) => {
+    const raw = await client.hGet(accountsKey, username);
+    return raw ? (JSON.parse(raw) as Account) : undefined;
+  };
+
+  return {
+    has: async (username) => (await client.hExists(accountsKey, username)) === 1,
+    get,
+
+    async create(username, password) {
+      const account: Account = { username, passwordHash: await hashPassword(password), createdAt: Date.now() };
+      // HSETNX: si otra instancia la dio de alta mientras tanto, gana la primera
+      const created = await client.hSetNX(accountsKey, username, JSON.stringify(account));
+      return created === 1 ? account : null;
+    },
+
+    async authenticate(username, password) {
+      const account = await get(username);
+      if (!account) return null;
+      return (await verifyPassword(password, account.passwordHash)) ? account : null;
+    },
+
+    async revokeToken(username, iat) {
+      const key = revokedKey(username);
+      // Los ya vencidos no hace falta recordarlos
+      await client.zRemRangeByScore(key, '-inf', Date.now());
+      await client.zAdd(key, { score: iat + TOKEN_TTL_MS, value: String(iat) });
+      await client.pExpireAt(key, iat + TOKEN_TTL_MS);
+    },
+
+    isRevoked: async (claims) => (await client.zScore(revokedKey(claims.sub), String(claims.iat))) !== null,
+  };
+};
@@ -0,0 +1,72 @@
+import { hasRole, type Role } from './moderation';
+
+/**
+ * Comandos de barra ("/nick nuevo"). Cada uno declara su sintaxis y el rol mínimo:
+ *   <arg>     obligatorio
+ *   [arg]     opcional
+ *   <arg...>  obligatorio, se queda con el resto de la línea (espacios incluidos)
+ */
+export type Command<Ctx> = {
+  name: string;
+  aliases?: string[];
+  syntax: string;
+  description: string;
+  role: Role;
+  run(ctx: Ctx, args: string[]): void | Promise<void>;
+};
+
+type Param = { required: boolean; rest: boolean };
+
+const parseSyntax = (syntax: string): Param[] =>
+  (syntax.match(/<[^>]+>|\[[^\]]+\]/g) ?? []).map((p) => ({ required: p.startsWith('<'), rest: p.endsWith('...>') }));
+
+export type ParsedCommand = { name: string; rawArgs: string };
+
+/** "/Nick  pepe" -> { name: "nick", rawArgs: "pepe" }. null si no es un comando */
+export const parseCommand = (input: string): ParsedCommand | null => {
+  const match = /^\/(\S+)\s*([\s\S]*)$/.exec(input.trim());
+  if (!match || !match[1]) return null;
+  return { name: match[1].toLowerCase(), rawArgs: (match[2] ?? '').trim() };
+};
+
+export const createCommandRegistry = <Ctx>() => {
+  const commands = new Map<string, Command<Ctx>>(); // nombre o alias -> comando
+  const params = new Map<Command<Ctx>, Param[]>();
+
+  return {
+    register(cmd: Command<Ctx>) {
+      params.set(cmd, parseSyntax(cmd.syntax));
+      for (const name of [cmd.name, ...(cmd.aliases ?? [])]) commands.set(name, cmd);
+    },
+
+    find: (name: string) => commands.get(name),
+
+    /** Comandos que puede usar un rol, sin repetir los alias */
+    available: (role: Role) =>
+      Array.from(new Set(commands.values()))
+        .filter((c) => hasRole(role, c.role))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+
+    usage: (cmd: Command<Ctx>) => `/${cmd.name}${cmd.syntax ? ` ${cmd.syntax}` : ''}`,
+
+    /** Separa los argumentos según la sintaxis. null si faltan o sobran */
+    args(cmd: Command<Ctx>, rawArgs: string): string[] | null {
+      const spec = params.get(cmd) ?? [];
+      const args: string[] = [];
+      let rest = rawArgs;
+      for (const param of spec) {
+        if (!rest) break;
+        if (param.rest) {
+          args.push(rest);
+          rest = '';
+          break;
+        }
+        const [head = '', tail = ''] = rest.split(/\s+(.*)/s);
+        args.push(head);
+        rest = tail.trim();
+      }
+      if (rest) return null;
+      return args.length >= spec.filter((p) => p.required).length ? args : null;
+    },
+  };
+};
@@ -0,0 +1,220 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { DEFAULT_PUBLIC_LIMITS, LIMITS, type PublicLimits } from '../../shared/protocol';
+import { DEFAULT_LIMITS, parseRateLimits, type RateLimits } from './ratelimit';
+import { parseWebhookConfig, type WebhookConfig } from './webhooks';
+
+/**
+ * Configuración del servidor. Se arma, en orden de prioridad creciente, con:
+ *   1. los valores por defecto
+ *   2. un archivo JSON (CONFIG_FILE, o config.json en el directorio actual si existe)
+ *   3. variables de entorno
+ * Todo se valida al arrancar: un valor inválido corta el inicio con un error que dice dónde está.
+ */
+export type Config = {
+  port: number;
+  host: string;
+  dataDir: string;
+  uploadsDir: string; // adjuntos; con Redis tiene que ser compartido entre las instancias
+  corsOrigins: string[]; // "*" = cualquier origen
+  helloTimeoutMs: number;
+  tls: { cert: string; key: string } | null; // contenido PEM; null = HTTP/WS sin cifrar
+  apiTokens: string[]; // tokens fijos para la API REST (scripts, dashboards)
+  redisUrl: string | null; // con Redis, varias instancias comparten presencia, historial, cuentas y moderación
+  redisPrefix: string; // prefijo de las claves (para varios chats en el mismo Redis)
+  webhooks: WebhookConfig; // solo desde el archivo
+  limits: PublicLimits;
+  rateLimits: RateLimits; // por evento y por socket, usuario o IP (sobre DEFAULT_LIMITS)
+};
+
+type ConfigFile = {
+  port?: unknown;
+  host?: unknown;
+  dataDir?: unknown;
+  uploadsDir?: unknown;
+  corsOrigins?: unknown;
+  helloTimeoutMs?: unknown;
+  tls?: { cert?: unknown; key?: unknown };
+  apiTokens?: unknown;
+  redisUrl?: unknown;
+  redisPrefix?: unknown;
+  webhooks?: unknown;
+  limits?: { usernameMin?: unknown; usernameMax?: unknown; textMax?: unknown; linesMax?: unknown; uploadMaxBytes?: unknown };
+  rateLimits?: unknown;
+};
+
+const UPLOAD_MAX_BYTES_CAP = 100 * 1024 * 1024;
+const API_TOKEN_MIN_LENGTH = 16;
+
+// Un valor y de dónde salió ("PORT" o "config: port"), para los mensajes de error
+type Source = { label: string; value: unknown };
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): Config => {
+  const problems: string[] = [];
+
+  const explicitFile = env.CONFIG_FILE?.trim();
+  const file = resolve(explicitFile || 'config.json');
+  let fromFile: ConfigFile = {};
+  if (explicitFile && !existsSync(file)) problems.push(`CONFIG_FILE: no existe ${file}`);
+  else if (existsSync(file)) {
+    try {
+      const parsed = JSON.parse(readFileSync(file, 'utf8')) as unknown;
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        problems.push(`${file}: se esperaba un objeto JSON`);
+      } else fromFile = parsed as ConfigFile;
+    } catch (err) {
+      problems.push(`${file}: JSON inválido (${err instanceof Error ? err.message : String(err)})`);
+    }
+  }
+
+  // La variable de entorno pisa al archivo
+  const source = (envName: string, fileKey: string, fileValue: unknown): Source | undefined => {
+    const raw = env[envName];
+    if (raw !== undefined && raw.trim() !== '') return { label: envName, value: raw.trim() };
+    if (fileValue !== undefined) return { label: `config: ${fileKey}`, value: fileValue };
+    return undefined;
+  };
+
+  const int = (src: Source | undefined, fallback: number, min: number, max: number): number => {
+    if (!src) return fallback;
+    const n = typeof src.value === 'string' ? Number(src.value) : src.value;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < min || n > max) {
+      problems.push(`${src.label}: se esperaba un entero entre ${min} y ${max} (recibido ${JSON.stringify(src.value)})`);
+      return fallback;
+    }
+    return n;
+  };
+
+  const text = (src: Source | undefined, fallback: string): string => {
+    if (!src) return fallback;
+    if (typeof src.value !== 'string' || !src.value.trim()) {
+      problems.push(`${src.label}: se esperaba un texto no vacío`);
+      return fallback;
+    }
+    return src.value.trim();
+  };
+
+  // Lista separada por comas en el entorno, o array en el archivo
+  const list = (src: Source | undefined, fallback: string[]): string[] => {
+    if (!src) return fallback;
+    const items = typeof src.value === 'string' ? src.value.split(',') : src.value;
+    if (!Array.isArray(items) || items.some((i) => typeof i !== 'string')) {
+      problems.push(`${src.label}: se esperaba una lista de textos`);
+      return fallback;
+    }
+    return (items as string[]).map((i) => i.trim()).filter(Boolean);
+  };
+
+  const readPem = (src: Source | undefined): string | null => {
+    if (!src) return null;
+    const path = text(src, '');
+    if (!path) return null;
+    try {
+      return readFileSync(resolve(path), 'utf8');
+    } catch (err) {
+      problems.push(`${src.label}: no se pudo leer ${resolve(path)} (${(err as NodeJS.ErrnoException).code ?? 'error'})`);
+      return null;
+    }
+  };
+
+  const port = int(source('PORT', 'port', fromFile.port), 3000, 1, 65535);
+  const host = text(source('HOST', 'host', fromFile.host), '0.0.0.0');
+  const dataDir = resolve(text(source('DATA_DIR', 'dataDir', fromFile.dataDir), 'data'));
+  const helloTimeoutMs = int(source('HELLO_TIMEOUT_MS', 'helloTimeoutMs', fromFile.helloTimeoutMs), 5000, 500, 60_000);
+
+  const originsSource = source('CORS_ORIGINS', 'corsOrigins', fromFile.corsOrigins);
+  const corsOrigins = list(originsSource, ['*']);
+  for (const origin of corsOrigins) {
+    if (origin === '*') continue;
+    let valid = false;
+    try {
+      valid = new URL(origin).origin === origin;
+    } catch {
+      // no es una URL
+    }
+    if (!valid) problems.push(`${originsSource?.label}: "${origin}" no es un origen válido (ej: http://localhost:5173)`);
+  }
+  if (corsOrigins.length === 0) problems.push(`${originsSource?.label}: la lista de orígenes está vacía (usá "*" para aceptar cualquiera)`);
+
+  // HTTPS/WSS: hacen falta los dos archivos o ninguno
+  const certSource = source('TLS_CERT_FILE', 'tls.cert', fromFile.tls?.cert);
+  const keySource = source('TLS_KEY_FILE', 'tls.key', fromFile.tls?.key);
+  let tls: Config['tls'] = null;
+  if (certSource || keySource) {
+    if (!certSource || !keySource) problems.push('TLS: hacen falta el certificado (TLS_CERT_FILE) y la clave (TLS_KEY_FILE)');
+    const cert = readPem(certSource);
+    const key = readPem(keySource);
+    if (cert && key) tls = { cert, key };
+  }
+
+  const tokensSource = source('API_TOKENS', 'apiTokens', fromFile.apiTokens);
+  const apiTokens = list(tokensSource, []);
+  if (apiTokens.some((t) => t.length < API_TOKEN_MIN_LENGTH)) {
+    problems.push(`${tokensSource?.label}: cada token debe tener al menos ${API_TOKEN_MIN_LENGTH} caracteres`);
+  }
+
+  const redisSource = source('REDIS_URL', 'redisUrl', fromFile.redisUrl);
+  const redisUrl = redisSource ? text(redisSource, '') || null : null;
+  if (redisUrl && !/^rediss?:\/\//.test(redisUrl)) {
+    problems.push(`${redisSource?.label}: se esperaba una URL redis:// o rediss://`);
+  }
+  const redisPrefix = text(source('REDIS_PREFIX', 'redisPrefix', fromFile.redisPrefix), 'chat:');
+
+  // DATA_DIR es de cada instancia; los adjuntos de todas tienen que estar en el mismo lugar
+  const uploadsSource = source('UPLOADS_DIR', 'uploadsDir', fromFile.uploadsDir);
+  const uploadsDir = resolve(text(uploadsSource, join(dataDir, 'uploads')));
+  if (redisUrl && !uploadsSource) {
+    problems.push(`${redisSource?.label}: con Redis hace falta UPLOADS_DIR, un directorio compartido entre las instancias`);
+  }
+
+  const webhooks = parseWebhookConfig(fromFile.webhooks, problems);
+
+  const fileLimits = fromFile.limits ?? {};
+  const usernameMax = int(
+    source('USERNAME_MAX_LENGTH', 'limits.usernameMax', fileLimits.usernameMax),
+    DEFAULT_PUBLIC_LIMITS.usernameMax,
+    1,
+    LIMITS.usernameMax
+  );
+  const usernameMin = int(
+    source('USERNAME_MIN_LENGTH', 'limits.usernameMin', fileLimits.usernameMin),
+    Math.min(DEFAULT_PUBLIC_LIMITS.usernameMin, usernameMax),
+    1,
+    usernameMax
+  );
+  const limits: PublicLimits = {
+    ...DEFAULT_PUBLIC_LIMITS,
+    usernameMin,
+    usernameMax,
+    textMax: int(source('MESSAGE_MAX_LENGTH', 'limits.textMax', fileLimits.textMax), DEFAULT_PUBLIC_LIMITS.textMax, 1, LIMITS.textMax),
+    linesMax: int(source('MESSAGE_MAX_LINES', 'limits.linesMax', fileLimits.linesMax), DEFAULT_PUBLIC_LIMITS.linesMax, 1, LIMITS.linesMax),
+    uploadMaxBytes: int(
+      source('UPLOAD_MAX_BYTES', 'limits.uploadMaxBytes', fileLimits.uploadMaxBytes),
+      DEFAULT_PUBLIC_LIMITS.uploadMaxBytes,
+      1,
+      UPLOAD_MAX_BYTES_CAP
+    ),
+  };
+
+  const rateLimitsSource = source('RATE_LIMITS', 'rateLimits', fromFile.rateLimits);
+  const rateLimits = rateLimitsSource
+    ? parseRateLimits(rateLimitsSource.value, rateLimitsSource.label, problems)
+    : DEFAULT_LIMITS;
+
+  if (problems.length > 0) throw new Error(`Configuración inválida:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+  return {
+    port,
+    host,
+    dataDir,
+    uploadsDir,
+    corsOrigins,
+    helloTimeoutMs,
+    tls,
+    apiTokens,
+    redisUrl,
+    redisPrefix,
+    webhooks,
+    limits,
+    rateLimits,
+  };
+};
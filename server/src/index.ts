@@ -1,131 +1,2089 @@
 import express from 'express';
 import { createServer } from 'node:http';
-import { Server } from 'socket.io';
+import { createServer as createHttpsServer } from 'node:https';
+import { Server, type Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import {
+  GLOBAL_ROOM,
+  isClientEvent,
+  isValidName,
+  LEGACY_PROTOCOL_VERSION,
+  cipherMaxLength,
+  LIMITS,
+  mentionedNames,
+  parseClientPayload,
+  PROTOCOL_VERSION,
+  type ApiRoom,
+  type ApiUser,
+  type ChatAck,
+  type Cipher,
+  type DeviceInfo,
+  type DeviceKey,
+  type PublicConfig,
+  type ChatOutPayload,
+  type SearchResults,
+  type ClientPayload,
+  type ClientToServerEvents,
+  type KeyInfo,
+  type ModAction,
+  type PrivateOutPayload,
+  type RoomInfo,
+  type ServerInfo,
+  type ServerToClientEvents,
+  type UserInfo,
+  type UserStatus,
+  type WelcomePayload,
+} from '../../shared/protocol';
+import { formatProblem } from '../../shared/markdown';
+import { join, resolve } from 'node:path';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { createFileMessageStore, createRedisMessageStore, type ChatMessage, type ReplyRef } from './store';
+import {
+  ALLOWED_MIME,
+  createFileAttachmentStore,
+  isImage,
+  sanitizeFilename,
+  toInfo,
+  type Attachment,
+} from './attachments';
+import { createCommandRegistry, parseCommand } from './commands';
+import { SEARCH_PAGE, searchMessages } from './search';
+import { loadConfig, type Config } from './config';
+import { createWebhookDispatcher, DEFAULT_DISPATCH, findIncoming } from './webhooks';
+import { createMemoryPresenceStore, createRedisClient, createRedisPresenceStore, toUserInfo, type Presence } from './presence';
+import { createFileAccountStore, createRedisAccountStore, loadSecret, loadSharedSecret, signToken, verifyToken } from './auth';
+import { createFloodGuard, createRateLimiter, DEFAULT_FLOOD, type Identity } from './ratelimit';
+import {
+  createFileBanStore,
+  createMuteList,
+  createRedisBanStore,
+  createRedisMuteList,
+  describeDuration,
+  hasRole,
+  isIpAddress,
+  normalizeIp,
+  outranks,
+  parseDuration,
+  roleFromEnv,
+  type Ban,
+  type Role,
+} from './moderation';
 
-const PORT = 3000;
 /**
- * App HTTP + Socket.IO
+ * Configuración (entorno + archivo): si algo es inválido no arrancamos
+ */
+let config: Config;
+try {
+  config = loadConfig();
+} catch (err) {
+  console.error(`[config] ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+}
+const DATA_DIR = config.dataDir;
+const HISTORY_LIMIT = 50; // mensajes que se envían al entrar a una sala
+const RESUME_GRACE_MS = 30_000; // tiempo para reanudar la sesión tras un corte
+const MISSED_LIMIT = 200; // máximo de mensajes perdidos por sala al reanudar
+const CLIENT_ID_MEMORY = 500; // claves de idempotencia recordadas por sesión
+const TYPING_TIMEOUT_MS = 6_000; // sin typing:start en este tiempo se da por terminado
+const REACTION_BATCH_MS = 300; // los cambios de reacciones de un mensaje se agrupan en esta ventana
+const MAX_REACTIONS_PER_MESSAGE = 20; // emojis distintos por mensaje
+const REPLY_SNIPPET_LENGTH = 120; // caracteres del mensaje citado en una respuesta
+const LAST_SEEN_WRITE_MS = 15_000; // la última actividad se guarda como mucho con esta frecuencia
+const SERVER_VERSION = process.env.npm_package_version ?? 'dev';
+const STARTED_AT = Date.now();
+/**
+ * App HTTP(S) + Socket.IO. Con certificado configurado todo va cifrado (HTTPS/WSS).
  */
 const app = express();
-const httpServer = createServer(app);
-const io = new Server(httpServer, {
-  cors: { origin: '192.168.0.131:5173' }, // Puerto del cliente en React
+const httpServer = config.tls ? createHttpsServer(config.tls, app) : createServer(app);
+const anyOrigin = config.corsOrigins.includes('*');
+
+/**
+ * Eventos entre instancias (solo con Redis): los dispositivos de una cuenta pueden estar
+ * repartidos y cada instancia maneja los suyos
+ */
+interface InstanceEvents {
+  'session:rooms': (username: string, room: string, joined: boolean) => void;
+  'session:end': (username: string) => void;
+  /** `device` null: todos menos `keep` (el que pidió el cierre) */
+  'session:revoke': (username: string, device: string | null, keep: string, keepIat: number | null) => void;
+  'session:devices': (username: string, reply: (devices: DeviceInfo[]) => void) => void;
+}
+
+const io = new Server<ClientToServerEvents, ServerToClientEvents, InstanceEvents>(httpServer, {
+  cors: { origin: anyOrigin ? '*' : config.corsOrigins },
   transports: ['websocket'],
 });
 
+/**
+ * Varias instancias: con Redis las difusiones pasan por su adapter (llegan a los sockets
+ * de todas las instancias) y se comparten la presencia, el historial, las cuentas y los
+ * bans y silenciados. Sin Redis todo queda en memoria y en DATA_DIR, que no se puede
+ * compartir entre procesos. Los adjuntos van a UPLOADS_DIR, que con Redis tiene que ser
+ * un directorio compartido (no se guardan en Redis: pueden pesar hasta 100 MB). La reanudación y los límites por IP siguen siendo
+ * de cada instancia: el balanceador debe mantener a cada cliente en la misma (sticky sessions).
+ * Los dispositivos de una cuenta pueden estar en instancias distintas: cada una lleva los suyos
+ * (y su cuenta en la presencia) y se avisan por `InstanceEvents`.
+ */
+const INSTANCE_ID = randomBytes(8).toString('hex');
+const REDIS_PREFIX = config.redisPrefix;
+const redis = config.redisUrl ? createRedisClient(config.redisUrl) : null;
+const redisSub = redis?.duplicate() ?? null;
+redis?.on('error', (err: unknown) => console.error('[redis] error', err));
+redisSub?.on('error', (err: unknown) => console.error('[redis] error (sub)', err));
+if (redis && redisSub) io.adapter(createAdapter(redis, redisSub, { key: `${REDIS_PREFIX}socket.io` }));
+const presence = redis ? createRedisPresenceStore(redis, INSTANCE_ID, REDIS_PREFIX) : createMemoryPresenceStore();
+
+app.use(express.json({ limit: '16kb' }));
+
+// CORS para las rutas HTTP que usa el cliente web (no hay cookies: el token va en el body/headers)
+app.use((req, res, next) => {
+  const origin = req.headers.origin;
+  if (anyOrigin) res.setHeader('Access-Control-Allow-Origin', '*');
+  else if (origin && config.corsOrigins.includes(origin)) res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Filename');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') return void res.sendStatus(204);
+  next();
+});
+
 app.get('/status', (_req, res) => res.status(200).send('ok'));
 
+// Lo que los clientes necesitan saber antes de conectarse (versión y límites)
+app.get('/config', (_req, res) => {
+  const body: PublicConfig = { protocol: PROTOCOL_VERSION, limits: config.limits };
+  res.status(200).json(body);
+});
+
 /**
- * Validadores simples
+ * Validadores simples (con los límites configurados, que se publican a los clientes)
  */
-const isValidUsername = (u: unknown): u is string => {
-  if (typeof u !== 'string') return false;
-  const username = u.trim();
-  // 3–20 chars, letras, números, guion y guion bajo
-  return username.length >= 3 && username.length <= 20 && /^[a-zA-Z0-9_-]+$/.test(username);
-};
+const isValidUsername = (u: unknown): u is string => isValidName(u, config.limits);
+
+const isValidPassword = (p: unknown): p is string =>
+  typeof p === 'string' && p.length >= config.limits.passwordMin && p.length <= config.limits.passwordMax;
 
 const isValidText = (t: unknown): t is string => {
   if (typeof t !== 'string') return false;
   const text = t.trim();
-  return text.length > 0 && text.length <= 100;
+  return text.length > 0 && text.length <= config.limits.textMax;
+};
+const INVALID_TEXT_MESSAGE = `Mensaje vacío o demasiado largo (≤${config.limits.textMax}).`;
+
+// Límites de formato (líneas y bloques de código), los mismos que el cliente muestra antes de enviar
+const textFormatProblem = (text: string) => formatProblem(text.trim(), config.limits);
+
+// Mismas reglas que el username
+const isValidRoomName = isValidUsername;
+
+// Un emoji (puede ser una secuencia con modificadores o ZWJ)
+const isValidEmoji = (e: unknown): e is string =>
+  typeof e === 'string' && e.length > 0 && e.length <= 16 && /^\p{Extended_Pictographic}/u.test(e) && !/\s/.test(e);
+
+/**
+ * Historial persistente de las salas
+ */
+const messages = redis
+  ? createRedisMessageStore(redis, REDIS_PREFIX)
+  : createFileMessageStore(join(DATA_DIR, 'messages.jsonl'));
+
+/**
+ * Sesiones de esta instancia. Una cuenta puede estar conectada desde varios dispositivos
+ * (hasta LIMITS.devicesPerUser entre todas las instancias); los invitados solo desde uno.
+ * Si los dispositivos caen en instancias distintas cada una tiene su Session con los suyos:
+ * `presence` lleva cuántos tiene cada instancia y los cambios de salas, la lista de dispositivos
+ * y los cierres viajan como InstanceEvents.
+ * Cada dispositivo sobrevive a un corte de conexión durante RESUME_GRACE_MS: reconectando
+ * con su resumeToken (en la misma instancia) recupera su lugar. La sesión termina cuando se
+ * va el último, de todas las instancias.
+ * Lo que ven las demás instancias (nombre, estado, salas) está en `presence`.
+ */
+type Device = {
+  id: string; // público (DeviceInfo); el resumeToken no sale de este dispositivo
+  resumeToken: string;
+  socketId: string | null; // null mientras está en período de gracia
+  ip: string;
+  agent: string;
+  connectedAt: number;
+  disconnectedAt: number | null;
+  graceTimer: NodeJS.Timeout | null;
+  tokenIat: number | null; // token de cuenta con el que entró (para invalidarlo al cerrarlo desde otro)
+  publicKey: string | null; // para los privados cifrados
+};
+
+type Session = {
+  username: string;
+  role: Role;
+  typing: Map<string, NodeJS.Timeout>; // destino ("room:<sala>" o "dm:<usuario>") -> vencimiento
+  devices: Map<string, Device>; // id -> dispositivo (incluye los que están en gracia)
+  rooms: Set<string>; // copia local de sus salas en `presence`
+  lastSeenWrittenAt: number;
+  sentByClientId: Map<string, Promise<ChatMessage>>; // clave de idempotencia -> mensaje publicado (o guardándose)
+};
+const sessions = new Map<string, Session>(); // username -> sesión (incluye las que están en gracia)
+
+const isOnline = (me: Session) => Array.from(me.devices.values()).some((d) => d.socketId !== null);
+
+const ipsOf = (me: Session) => Array.from(new Set(Array.from(me.devices.values(), (d) => d.ip)));
+
+/**
+ * IPs en todas las instancias: las conexiones abiertas se piden al adapter (cada socket está
+ * en la sala de su usuario) y los dispositivos en período de gracia solo los conoce esta
+ */
+const usersAtIp = async (ip: string) => {
+  const names = new Set<string>();
+  for (const s of sessions.values()) if (ipsOf(s).includes(ip)) names.add(s.username);
+  for (const socket of await io.fetchSockets()) {
+    if (normalizeIp(socket.handshake.address) !== ip) continue;
+    for (const room of socket.rooms) if (room.startsWith('user:')) names.add(room.slice('user:'.length));
+  }
+  return Array.from(names);
+};
+
+const ipsOfUser = async (username: string) => {
+  const local = sessions.get(username);
+  const ips = new Set(local ? ipsOf(local) : []);
+  for (const socket of await io.in(userKey(username)).fetchSockets()) ips.add(normalizeIp(socket.handshake.address));
+  return Array.from(ips);
 };
 
+// Errores de operaciones en segundo plano (presencia, difusiones): se registran y listo
+const logError = (what: string) => (err: unknown) => console.error(`[io] ${what} error`, err);
+
+// Última actividad: se guarda en la presencia como mucho cada LAST_SEEN_WRITE_MS
+const touch = (me: Session) => {
+  const now = Date.now();
+  if (now - me.lastSeenWrittenAt < LAST_SEEN_WRITE_MS) return;
+  me.lastSeenWrittenAt = now;
+  presence.update(me.username, { lastSeen: now }).catch(logError('lastSeen'));
+};
+
+const newResumeToken = () => randomBytes(24).toString('base64url');
+const newDeviceId = () => randomBytes(9).toString('base64url');
+
+/**
+ * Salas: cada una es una sala de Socket.IO ("room:<nombre>"); sus miembros están en `presence`.
+ * La sala global existe siempre y todos los usuarios registrados están en ella.
+ * Cada usuario tiene además su sala "user:<nombre>" para los privados (en cualquier instancia).
+ */
+const roomKey = (room: string) => `room:${room}`;
+const userKey = (username: string) => `user:${username}`;
+
+const usersOf = async (room: string): Promise<UserInfo[]> => (await presence.members(room)).map(toUserInfo);
+
+const broadcastRooms = () => {
+  presence
+    .rooms()
+    .then((rooms) => io.emit('rooms:list', { rooms }))
+    .catch(logError('rooms:list'));
+};
+
+/**
+ * Reacciones: en vez de un evento por clic se difunde el estado completo del mensaje,
+ * como mucho una vez cada REACTION_BATCH_MS
+ */
+const pendingReactions = new Map<string, NodeJS.Timeout>(); // id de mensaje -> envío programado
+
+const scheduleReactionUpdate = (id: string) => {
+  if (pendingReactions.has(id)) return;
+  const timer = setTimeout(() => {
+    pendingReactions.delete(id);
+    messages
+      .get(id)
+      .then((msg) => {
+        if (msg) io.to(roomKey(msg.room)).emit('reaction:update', { id, room: msg.room, reactions: msg.reactions ?? {} });
+      })
+      .catch(logError('reaction:update'));
+  }, REACTION_BATCH_MS);
+  pendingReactions.set(id, timer);
+};
+
+/**
+ * Indicadores de escritura. Se avisa solo al empezar y al terminar; si el cliente deja de
+ * confirmar durante TYPING_TIMEOUT_MS se corta solo.
+ */
+const emitTyping = (me: Session, key: string, typing: boolean) => {
+  const event = typing ? 'typing:start' : 'typing:stop';
+  if (key.startsWith('dm:')) {
+    io.to(userKey(key.slice(3))).emit(event, { username: me.username, to: key.slice(3) });
+    return;
+  }
+  // A sus otros dispositivos tampoco
+  io.to(key).except(userKey(me.username)).emit(event, { username: me.username, room: key.slice('room:'.length) });
+};
+
+const stopTyping = (me: Session, key: string) => {
+  const timer = me.typing.get(key);
+  if (!timer) return;
+  clearTimeout(timer);
+  me.typing.delete(key);
+  emitTyping(me, key, false);
+};
+
+const stopAllTyping = (me: Session) => {
+  for (const key of me.typing.keys()) stopTyping(me, key);
+};
+
+const startTyping = (me: Session, key: string) => {
+  const timer = me.typing.get(key);
+  if (timer) clearTimeout(timer);
+  else emitTyping(me, key, true);
+  me.typing.set(key, setTimeout(() => stopTyping(me, key), TYPING_TIMEOUT_MS));
+};
+
+/**
+ * Cierra la sesión en esta instancia. Si no le quedan dispositivos en otra, sale de sus salas
+ * y avisa a los demás
+ */
+const endSession = async (session: Session) => {
+  const devices = Array.from(session.devices.values());
+  for (const d of devices) if (d.graceTimer) clearTimeout(d.graceTimer);
+  session.devices.clear();
+  stopAllTyping(session);
+  sessions.delete(session.username);
+  session.rooms.clear();
+  await Promise.all(devices.map((d) => presence.setDeviceToken(d.resumeToken, null)));
+  const left = await presence.release(session.username);
+  if (!left) {
+    // Sigue conectada desde otra instancia: solo cambian sus dispositivos y claves
+    await Promise.all([broadcastSessions(session.username), announceKeys(session.username)]);
+    return;
+  }
+  for (const room of left) io.to(roomKey(room)).emit('user_left', { username: session.username, room });
+  if (left.some((room) => room !== GLOBAL_ROOM)) broadcastRooms();
+};
+
+/**
+ * Dispositivos de una sesión: la lista llega a todos cada vez que cambia
+ */
+const deviceInfo = (d: Device): DeviceInfo => ({
+  id: d.id,
+  agent: d.agent,
+  ip: d.ip,
+  connectedAt: d.connectedAt,
+  online: d.socketId !== null,
+});
+
+const localDevices = (username: string): DeviceInfo[] =>
+  Array.from(sessions.get(username)?.devices.values() ?? [], deviceInfo);
+
+// Los de esta instancia más los que informan las demás (si alguna no contesta, sin los suyos)
+const devicesOf = async (username: string): Promise<DeviceInfo[]> => {
+  if (!redis) return localDevices(username);
+  const remote = await io.serverSideEmitWithAck('session:devices', username).catch((err: unknown) => {
+    console.error('[io] session:devices error', err);
+    return [] as DeviceInfo[][];
+  });
+  return [...localDevices(username), ...remote.flat()].sort((a, b) => a.connectedAt - b.connectedAt);
+};
+
+const broadcastSessions = async (username: string) => {
+  io.to(userKey(username)).emit('sessions:list', { sessions: await devicesOf(username) });
+};
+
+const deviceKeys = (publicKeys: Record<string, string> = {}): DeviceKey[] =>
+  Object.entries(publicKeys).map(([device, publicKey]) => ({ device, publicKey }));
+
+// Los clientes comparan con las huellas que conocían de ese nombre (y avisan si hay una nueva)
+const announceKeys = async (username: string) => {
+  const keys = deviceKeys((await presence.get(username))?.publicKeys);
+  io.emit('keys:changed', { username, keys });
+};
+
+// Cada instancia publica las claves de sus dispositivos; `presence` las junta
+const publishKeys = async (me: Session) => {
+  const publicKeys: Record<string, string> = {};
+  for (const d of me.devices.values()) if (d.publicKey) publicKeys[d.id] = d.publicKey;
+  await presence.update(me.username, { publicKeys });
+  await announceKeys(me.username);
+};
+
+/**
+ * Saca un dispositivo de la sesión; si era el último de esta instancia, la sesión termina acá
+ */
+const removeDevice = async (me: Session, d: Device) => {
+  if (d.graceTimer) clearTimeout(d.graceTimer);
+  if (me.devices.get(d.id) !== d) return;
+  me.devices.delete(d.id);
+  await presence.setDeviceToken(d.resumeToken, null);
+  if (me.devices.size === 0) return endSession(me);
+  await presence.setDevices(me.username, me.devices.size);
+  if (d.publicKey) await publishKeys(me);
+  if (!isOnline(me)) {
+    stopAllTyping(me);
+    await presence.update(me.username, { online: false, lastSeen: Date.now() });
+  }
+  await broadcastSessions(me.username);
+};
+
+/**
+ * Cierra dispositivos de la sesión en esta instancia (`id` null: todos menos `keep`). En las
+ * cuentas también se invalida el token con el que entraron, para que no puedan volver sin la contraseña.
+ * Devuelve cuántos cerró
+ */
+const revokeDevices = async (me: Session, id: string | null, keep: { id: string; tokenIat: number | null }) => {
+  const targets = Array.from(me.devices.values()).filter((d) => d.id !== keep.id && (id === null || d.id === id));
+  for (const d of targets) {
+    // El mismo token puede estar en varios dispositivos (pestañas): el de quien revoca queda
+    if (d.tokenIat !== null && d.tokenIat !== keep.tokenIat) await accounts.revokeToken(me.username, d.tokenIat);
+    const s = d.socketId ? io.sockets.sockets.get(d.socketId) : undefined;
+    await removeDevice(me, d);
+    if (s) {
+      s.emit('server:error', { code: 'SESSION_REVOKED', message: 'Cerraron esta sesión desde otro dispositivo.' });
+      setTimeout(() => s.disconnect(true), 50);
+    }
+  }
+  return targets.length;
+};
+
+// Lo que pasa en las sesiones de otras instancias que también tienen dispositivos acá
+io.on('session:rooms', (username, room, joined) => {
+  const local = sessions.get(username);
+  if (!local) return;
+  if (joined) return void local.rooms.add(room);
+  local.rooms.delete(room);
+  stopTyping(local, roomKey(room));
+});
+
+io.on('session:end', (username) => {
+  const local = sessions.get(username);
+  if (local) endSession(local).catch(logError('session:end'));
+});
+
+io.on('session:revoke', (username, device, keep, keepIat) => {
+  const local = sessions.get(username);
+  if (local) revokeDevices(local, device, { id: keep, tokenIat: keepIat }).catch(logError('session:revoke'));
+});
+
+io.on('session:devices', (username, reply) => reply(localDevices(username)));
+
+/**
+ * Cuentas registradas y tokens de sesión. Con Redis el secreto de firma se lee al arrancar
+ * (tiene que ser el mismo en todas las instancias).
+ */
+const accounts = redis ? createRedisAccountStore(redis, REDIS_PREFIX) : createFileAccountStore(join(DATA_DIR, 'accounts.json'));
+let authSecret = redis ? '' : loadSecret(join(DATA_DIR, 'auth-secret'));
+
+type AuthBody = { username?: unknown; password?: unknown };
+
+const sendError = (res: express.Response, status: number, code: string, message: string) =>
+  res.status(status).json({ error: { code, message } });
+
+app.post('/auth/register', async (req, res) => {
+  try {
+    const { username, password } = (req.body ?? {}) as AuthBody;
+    if (!isValidUsername(username)) return void sendError(res, 400, 'INVALID_USERNAME', 'Username inválido');
+    if (!isValidPassword(password)) {
+      return void sendError(res, 400, 'INVALID_PASSWORD', `La contraseña debe tener entre ${config.limits.passwordMin} y ${config.limits.passwordMax} caracteres`);
+    }
+    const name = username.trim();
+    // Tampoco se puede registrar un nombre que un invitado está usando ahora
+    if ((await accounts.has(name)) || (await presence.isTaken(name))) {
+      return void sendError(res, 409, 'USERNAME_TAKEN', 'Ese nombre ya está en uso');
+    }
+    const account = await accounts.create(name, password);
+    if (!account) return void sendError(res, 409, 'USERNAME_TAKEN', 'Ese nombre ya está en uso');
+    console.log(`[auth] registered "${name}"`);
+    res.status(201).json({ username: name, token: signToken(name, authSecret) });
+  } catch (err) {
+    console.error('[auth] register error', err);
+    sendError(res, 500, 'INTERNAL', 'Error interno registrando la cuenta.');
+  }
+});
+
+app.post('/auth/login', async (req, res) => {
+  try {
+    const { username, password } = (req.body ?? {}) as AuthBody;
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return void sendError(res, 400, 'INVALID_CREDENTIALS', 'Usuario o contraseña incorrectos');
+    }
+    const account = await accounts.authenticate(username.trim(), password);
+    if (!account) return void sendError(res, 401, 'INVALID_CREDENTIALS', 'Usuario o contraseña incorrectos');
+    res.status(200).json({ username: account.username, token: signToken(account.username, authSecret) });
+  } catch (err) {
+    console.error('[auth] login error', err);
+    sendError(res, 500, 'INTERNAL', 'Error interno iniciando sesión.');
+  }
+});
+
+/**
+ * Moderación: roles, bans persistidos y silenciados por moderadores
+ */
+const bans = redis ? createRedisBanStore(redis, REDIS_PREFIX) : createFileBanStore(join(DATA_DIR, 'bans.json'));
+const mutes = redis ? createRedisMuteList(redis, REDIS_PREFIX) : createMuteList();
+
+// Los invitados siempre son `user`; las cuentas toman el rol del archivo o de ADMIN_USERS / MODERATOR_USERS
+const roleOf = async (account: string | undefined): Promise<Role> =>
+  account ? ((await accounts.get(account))?.role ?? roleFromEnv(account) ?? 'user') : 'user';
+
+// Todos ven las acciones de moderación como mensaje de sistema
+const announce = (action: ModAction) => io.emit('mod:action', action);
+
+const banMessage = (ban: Ban) =>
+  ban.until === null ? 'Estás baneado.' : `Estás baneado (${describeDuration(ban.until - Date.now())} restantes).`;
+
+const mutedMessage = (ms: number) =>
+  Number.isFinite(ms)
+    ? `Un moderador te silenció (${describeDuration(ms)} restantes).`
+    : 'Un moderador te silenció.';
+
+/**
+ * Saca a un usuario ya mismo, sin período de gracia, avisándole el motivo
+ */
+const expel = (username: string, code: string, message: string) => {
+  // Se cierra la sesión entera, también los dispositivos en período de gracia (en todas las instancias)
+  const local = sessions.get(username);
+  if (local) endSession(local).catch(logError('expel'));
+  if (redis) io.serverSideEmit('session:end', username);
+  // Puede estar conectado a otra instancia: el aviso y el corte van por su sala de usuario
+  io.to(userKey(username)).emit('server:error', { code, message });
+  setTimeout(() => io.in(userKey(username)).disconnectSockets(true), 50);
+};
+
+/**
+ * Rate limiting (token buckets por evento) y castigo a los que insisten
+ */
+const limiter = createRateLimiter(config.rateLimits);
+const flood = createFloodGuard(DEFAULT_FLOOD);
+setInterval(() => {
+  limiter.sweep();
+  flood.sweep();
+}, 60_000).unref();
+
+/**
+ * Adjuntos: se suben por HTTP con el resumeToken de la sesión (solo quien completó hello,
+ * en cualquier instancia) y los mensajes los referencian por id
+ */
+const attachments = createFileAttachmentStore(config.uploadsDir);
+const readUpload = express.raw({ type: () => true, limit: config.limits.uploadMaxBytes });
+
+const uploaderOf = async (req: express.Request): Promise<string | undefined> => {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  if (scheme !== 'Bearer' || !token) return undefined;
+  return presence.deviceTokenOwner(token);
+};
+
+app.post('/uploads', async (req, res) => {
+  let username: string | undefined;
+  try {
+    username = await uploaderOf(req);
+  } catch (err) {
+    console.error('[upload] error', err);
+    return void sendError(res, 500, 'INTERNAL', 'Error interno guardando el archivo.');
+  }
+  if (!username) return void sendError(res, 401, 'NOT_REGISTERED', 'Primero envía hello {username}.');
+  const retryAfterMs = limiter.take('upload', { user: username, ip: req.ip ?? '' });
+  if (retryAfterMs > 0) {
+    res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+    return void sendError(res, 429, 'RATE_LIMITED', 'Demasiadas subidas, esperá un momento.');
+  }
+  const mime = (req.headers['content-type'] ?? '').split(';')[0]?.trim().toLowerCase() ?? '';
+  if (!ALLOWED_MIME.has(mime)) {
+    return void sendError(res, 415, 'UNSUPPORTED_TYPE', 'Tipo de archivo no permitido.');
+  }
+
+  readUpload(req, res, (err?: unknown) => {
+    try {
+      if (err) {
+        const tooLarge = (err as { type?: string }).type === 'entity.too.large';
+        if (tooLarge) {
+          return void sendError(res, 413, 'FILE_TOO_LARGE', `El archivo supera ${(config.limits.uploadMaxBytes / 1024 / 1024).toFixed(1)} MB.`);
+        }
+        return void sendError(res, 400, 'INVALID_UPLOAD', 'No se pudo leer el archivo.');
+      }
+      const data = req.body as unknown;
+      if (!Buffer.isBuffer(data) || data.length === 0) {
+        return void sendError(res, 400, 'EMPTY_FILE', 'El archivo está vacío.');
+      }
+      let rawName = String(req.headers['x-filename'] ?? '');
+      try {
+        rawName = decodeURIComponent(rawName);
+      } catch {
+        // nombre sin codificar: se usa tal cual
+      }
+      attachments
+        .save({ name: sanitizeFilename(rawName), mime, data, uploader: username })
+        .then((attachment) => {
+          console.log(`[upload] ${username} uploaded "${attachment.name}" (${attachment.size} bytes)`);
+          res.status(201).json(toInfo(attachment));
+        })
+        .catch((e: unknown) => {
+          console.error('[upload] error', e);
+          sendError(res, 500, 'INTERNAL', 'Error interno guardando el archivo.');
+        });
+    } catch (e) {
+      console.error('[upload] error', e);
+      sendError(res, 500, 'INTERNAL', 'Error interno guardando el archivo.');
+    }
+  });
+});
+
+app.get('/uploads/:id', async (req, res) => {
+  try {
+    const attachment = await attachments.get(req.params.id);
+    const file = attachment && (await attachments.file(attachment.id));
+    if (!attachment || !file) return void sendError(res, 404, 'NOT_FOUND', 'El adjunto no existe.');
+    const disposition = isImage(attachment.mime) ? 'inline' : 'attachment';
+    res.setHeader('Content-Type', attachment.mime);
+    res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', "default-src 'none'");
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    res.sendFile(resolve(file), (err) => {
+      if (err && !res.headersSent) sendError(res, 500, 'INTERNAL', 'Error leyendo el adjunto.');
+    });
+  } catch (err) {
+    console.error('[upload] download error', err);
+    sendError(res, 500, 'INTERNAL', 'Error leyendo el adjunto.');
+  }
+});
+
+/**
+ * API REST de solo lectura para dashboards y scripts. Lee el mismo estado que los sockets.
+ * Autenticación: "Authorization: Bearer <token>" con un token de API configurado
+ * o el token de una cuenta (el de /auth/login).
+ */
+const isApiToken = (token: string) => {
+  const actual = Buffer.from(token);
+  return config.apiTokens.some((t) => {
+    const expected = Buffer.from(t);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  });
+};
+
+// Quién hace el pedido: "api" para los tokens fijos, el nombre de la cuenta si no
+const apiCaller = async (req: express.Request): Promise<string | undefined> => {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  if (scheme !== 'Bearer' || !token) return undefined;
+  if (isApiToken(token)) return 'api';
+  const claims = verifyToken(token, authSecret);
+  return claims && (await accounts.has(claims.sub)) && !(await accounts.isRevoked(claims)) ? claims.sub : undefined;
+};
+
+const api = express.Router();
+
+api.use(async (req, res, next) => {
+  if (req.method !== 'GET') return void sendError(res, 405, 'METHOD_NOT_ALLOWED', 'La API es de solo lectura.');
+  const caller = await apiCaller(req);
+  if (!caller) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return void sendError(res, 401, 'UNAUTHORIZED', 'Falta un token válido (Authorization: Bearer <token>).');
+  }
+  const retryAfterMs = limiter.take('api', { user: caller, ip: req.ip ?? '' });
+  if (retryAfterMs > 0) {
+    res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+    return void sendError(res, 429, 'RATE_LIMITED', 'Demasiados pedidos, esperá un momento.');
+  }
+  next();
+});
+
+// Un parámetro de query simple (repetido o anidado cuenta como inválido)
+const queryParam = (req: express.Request, key: string): string | undefined | null => {
+  const value = req.query[key];
+  if (value === undefined) return undefined;
+  return typeof value === 'string' ? value : null;
+};
+
+// Fecha en ms desde epoch o ISO 8601
+const parseTime = (raw: string): number | null => {
+  const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  return Number.isFinite(ms) ? ms : null;
+};
+
+const apiUser = ({ username, status, lastSeen, role, rooms }: Presence): ApiUser => ({
+  username,
+  status,
+  lastSeen,
+  role,
+  rooms,
+});
+
+api.get('/info', async (_req, res) => {
+  const [online, rooms] = await Promise.all([presence.online(), presence.rooms()]);
+  const info: ServerInfo = {
+    version: SERVER_VERSION,
+    protocol: PROTOCOL_VERSION,
+    startedAt: STARTED_AT,
+    uptimeMs: Date.now() - STARTED_AT,
+    connections: io.engine.clientsCount,
+    users: online.length,
+    rooms: rooms.length,
+  };
+  res.status(200).json(info);
+});
+
+// Conectados con su presencia; ?room=<sala> filtra por sala
+api.get('/users', async (req, res) => {
+  const room = queryParam(req, 'room');
+  if (room === null) return void sendError(res, 400, 'INVALID_QUERY', 'Parámetro "room" inválido.');
+  if (room !== undefined && !(await presence.hasRoom(room))) {
+    return void sendError(res, 404, 'ROOM_NOT_FOUND', `La sala "${room}" no existe.`);
+  }
+  const users = (await presence.online()).filter((p) => room === undefined || p.rooms.includes(room)).map(apiUser);
+  res.status(200).json({ users });
+});
+
+api.get('/users/:username', async (req, res) => {
+  const user = await presence.get(req.params.username);
+  if (!user?.online) return void sendError(res, 404, 'USER_NOT_FOUND', `El usuario "${req.params.username}" no está conectado.`);
+  res.status(200).json(apiUser(user));
+});
+
+api.get('/rooms', async (_req, res) => {
+  const rooms = await presence.rooms();
+  const list: ApiRoom[] = await Promise.all(
+    rooms.map(async (room) => ({ ...room, users: (await presence.members(room.name)).map((p) => p.username) }))
+  );
+  res.status(200).json({ rooms: list });
+});
+
+// Historial paginado hacia atrás: ?before=<id>&limit=&author=&since=&until=
+api.get('/rooms/:room/messages', async (req, res) => {
+  const room = req.params.room;
+  if (room !== GLOBAL_ROOM && !isValidRoomName(room)) {
+    return void sendError(res, 400, 'INVALID_ROOM', 'Nombre de sala inválido.');
+  }
+  const before = queryParam(req, 'before');
+  const author = queryParam(req, 'author');
+  const rawLimit = queryParam(req, 'limit');
+  const rawSince = queryParam(req, 'since');
+  const rawUntil = queryParam(req, 'until');
+  if (before === null || author === null || rawLimit === null || rawSince === null || rawUntil === null) {
+    return void sendError(res, 400, 'INVALID_QUERY', 'Los parámetros deben aparecer una sola vez.');
+  }
+  if (before !== undefined && (await messages.get(before))?.room !== room) {
+    return void sendError(res, 400, 'INVALID_CURSOR', `"before" no es un mensaje de la sala "${room}".`);
+  }
+  const limit = rawLimit === undefined ? HISTORY_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > LIMITS.historyPageMax) {
+    return void sendError(res, 400, 'INVALID_QUERY', `"limit" debe ser un entero entre 1 y ${LIMITS.historyPageMax}.`);
+  }
+  const since = rawSince === undefined ? undefined : parseTime(rawSince);
+  const until = rawUntil === undefined ? undefined : parseTime(rawUntil);
+  if (since === null || until === null) {
+    return void sendError(res, 400, 'INVALID_QUERY', '"since" y "until" deben ser ms desde epoch o fechas ISO 8601.');
+  }
+  const page = await messages.query(room, { before, author, since, until, limit });
+  res.status(200).json({ room, ...(before ? { before } : {}), ...page });
+});
+
+// Búsqueda de texto completo: ?q=&room=&author=&since=&until=&before=&limit= (más recientes primero)
+api.get('/search', async (req, res) => {
+  const params = ['q', 'room', 'author', 'since', 'until', 'before', 'limit'].map((key) => queryParam(req, key));
+  if (params.includes(null)) return void sendError(res, 400, 'INVALID_QUERY', 'Los parámetros deben aparecer una sola vez.');
+  const [q, room, author, rawSince, rawUntil, before, rawLimit] = params as Array<string | undefined>;
+  if (!q?.trim() || q.length > 200) return void sendError(res, 400, 'INVALID_QUERY', '"q" es obligatorio (máximo 200 caracteres).');
+  if (room !== undefined && room !== GLOBAL_ROOM && !isValidRoomName(room)) {
+    return void sendError(res, 400, 'INVALID_ROOM', 'Nombre de sala inválido.');
+  }
+  if (before !== undefined && !(await messages.get(before))) {
+    return void sendError(res, 400, 'INVALID_CURSOR', '"before" no es un mensaje conocido.');
+  }
+  const limit = rawLimit === undefined ? SEARCH_PAGE : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > LIMITS.searchPageMax) {
+    return void sendError(res, 400, 'INVALID_QUERY', `"limit" debe ser un entero entre 1 y ${LIMITS.searchPageMax}.`);
+  }
+  const since = rawSince === undefined ? undefined : parseTime(rawSince);
+  const until = rawUntil === undefined ? undefined : parseTime(rawUntil);
+  if (since === null || until === null) {
+    return void sendError(res, 400, 'INVALID_QUERY', '"since" y "until" deben ser ms desde epoch o fechas ISO 8601.');
+  }
+  const rooms = room === undefined ? undefined : new Set([room]);
+  const found = await searchMessages(messages, { q, rooms, author, since, until, before, limit });
+  if (!found) return void sendError(res, 400, 'INVALID_QUERY', 'La búsqueda no tiene ningún término.');
+  const results: SearchResults = { q, ...(before ? { before } : {}), ...found };
+  res.status(200).json(results);
+});
+
+api.use((_req, res) => sendError(res, 404, 'NOT_FOUND', 'Ruta inexistente.'));
+
+// Errores no previstos dentro de la API: siempre JSON
+api.use((err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  console.error('[api] error', err);
+  if (!res.headersSent) sendError(res, 500, 'INTERNAL', 'Error interno.');
+});
+
+app.use('/api', api);
+
+/**
+ * Menciones (@usuario): solo cuentan las de usuarios conectados, también en otra instancia
+ * o dentro del período de gracia. Con ellas el cliente resalta y notifica.
+ */
+const resolveMentions = async (text: string) => {
+  const names = mentionedNames(text);
+  const online = await Promise.all(names.map((name) => presence.isTaken(name)));
+  return names.filter((_, i) => online[i]);
+};
+
+const withMentions = (mentions: string[]) => (mentions.length > 0 ? { mentions } : {});
+
+/**
+ * Webhooks. Entrantes: POST /hooks/<token> { text } publica como el bot del webhook.
+ * Salientes: los chat:public que coinciden se envían firmados a cada URL configurada.
+ */
+const postAsBot = async (bot: string, room: string, text: string): Promise<ChatMessage> => {
+  const mentions = await resolveMentions(text);
+  const msg = await messages.append({ username: bot, text: text.trim(), at: Date.now(), room, bot: true, ...withMentions(mentions) });
+  io.to(roomKey(room)).emit('chat:public', msg);
+  return msg;
+};
+
+const webhooks = createWebhookDispatcher(config.webhooks.outgoing, {
+  ...DEFAULT_DISPATCH,
+  onReply(hook, room, text) {
+    if (!isValidText(text) || textFormatProblem(text)) return void console.warn(`[webhook] ${hook.id}: respuesta inválida ignorada`);
+    postAsBot(hook.bot, room, text).catch((err) => console.error(`[webhook] ${hook.id}: error publicando la respuesta`, err));
+  },
+});
+
+app.post('/hooks/:token', async (req, res) => {
+  try {
+    const hook = findIncoming(config.webhooks.incoming, req.params.token);
+    if (!hook) return void sendError(res, 404, 'NOT_FOUND', 'Webhook inexistente.');
+    const retryAfterMs = limiter.take('webhook', { user: hook.id, ip: req.ip ?? '' });
+    if (retryAfterMs > 0) {
+      res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+      return void sendError(res, 429, 'RATE_LIMITED', 'Demasiados mensajes, esperá un momento.');
+    }
+    const { text } = (req.body ?? {}) as { text?: unknown };
+    if (!isValidText(text)) return void sendError(res, 400, 'INVALID_MESSAGE', INVALID_TEXT_MESSAGE);
+    const badFormat = textFormatProblem(text);
+    if (badFormat) return void sendError(res, 400, 'INVALID_MESSAGE', badFormat);
+    const msg = await postAsBot(hook.bot, hook.room, text);
+    console.log(`[webhook] ${hook.id} posted to "${hook.room}" as ${hook.bot}`);
+    res.status(201).json({ id: msg.id, at: msg.at });
+  } catch (err) {
+    console.error('[webhook] incoming error', err);
+    sendError(res, 500, 'INTERNAL', 'Error interno publicando el mensaje.');
+  }
+});
+
+/**
+ * Mensajes privados (evento chat:private, /msg y /me dentro de una conversación privada).
+ * Los cifrados de extremo a extremo se reenvían tal cual: el servidor no puede leerlos.
+ */
+type PrivateContent = { text: unknown; action?: boolean } | { ciphers: Cipher[]; device: string };
+
+const deliverPrivate = async (me: Session, rawTo: string, content: PrivateContent, fail: Fail) => {
+  const mutedMs = await mutes.mutedFor(me.username);
+  if (mutedMs > 0) return fail('MUTED', mutedMessage(mutedMs));
+  let body: Pick<PrivateOutPayload, 'text' | 'action' | 'ciphers' | 'device'>;
+  if ('ciphers' in content) {
+    const maxLength = cipherMaxLength(config.limits.textMax);
+    if (content.ciphers.length === 0 || content.ciphers.some((c) => c.data.length > maxLength)) {
+      return fail('INVALID_MESSAGE', INVALID_TEXT_MESSAGE);
+    }
+    body = { text: '', ciphers: content.ciphers, device: content.device };
+  } else {
+    const { text, action } = content;
+    if (!isValidText(text)) return fail('INVALID_MESSAGE', INVALID_TEXT_MESSAGE);
+    const badFormat = textFormatProblem(text);
+    if (badFormat) return fail('INVALID_MESSAGE', badFormat);
+    body = { text: text.trim(), ...(action ? { action: true } : {}) };
+  }
+  const to = rawTo.trim();
+  if (to === me.username) return fail('INVALID_RECIPIENT', 'No podés enviarte mensajes privados a vos mismo.');
+  if (!(await presence.get(to))?.online) return fail('USER_NOT_FOUND', `El usuario "${to}" no está conectado.`);
+  const msg: PrivateOutPayload = { from: me.username, to, at: Date.now(), ...body };
+  stopTyping(me, `dm:${to}`);
+  // A todos los dispositivos del destinatario y de vuelta a los del remitente (para que lo vean en su conversación)
+  io.to([userKey(to), userKey(me.username)]).emit('chat:private', msg);
+};
+
+/**
+ * Cambio de nombre: se toma el nuevo en la presencia (false si está en uso) y se actualiza la sesión
+ */
+const renameSession = async (me: Session, name: string): Promise<boolean> => {
+  const from = me.username;
+  if (!(await presence.rename(from, name))) return false;
+  await Promise.all(Array.from(me.devices.values(), (d) => presence.setDeviceToken(d.resumeToken, name)));
+  stopAllTyping(me);
+  sessions.delete(from);
+  sessions.set(name, me);
+  me.username = name;
+  io.in(userKey(from)).socketsJoin(userKey(name));
+  io.in(userKey(name)).socketsLeave(userKey(from));
+  io.emit('user_renamed', { from, to: name });
+  console.log(`[io] "${from}" is now "${name}"`);
+  return true;
+};
+
+/**
+ * Comandos de barra: el cliente manda la línea tal cual (command:run) y la salida
+ * vuelve solo a quien lo ejecutó, como mensajes de sistema (system:message)
+ */
+type Fail = (code: string, message: string) => void;
+
+type CommandContext = {
+  me: Session;
+  socket: Socket<ClientToServerEvents, ServerToClientEvents>;
+  room: string; // sala desde la que se ejecutó
+  to: string | null; // conversación privada abierta, si la hay
+  reply: (text: string) => void;
+  fail: Fail;
+};
+
+const commands = createCommandRegistry<CommandContext>();
+
+const ROLE_LABEL: Record<Role, string> = { admin: 'administrador', moderator: 'moderador', user: 'usuario' };
+const STATUS_LABEL: Record<UserStatus, string> = { online: 'en línea', away: 'ausente', busy: 'ocupado' };
+
+// Sin duración: indefinido (null). Devuelve undefined si el formato es inválido
+const durationOf = (raw: string | undefined, fail: Fail): number | null | undefined => {
+  if (!raw) return null;
+  const ms = parseDuration(raw);
+  if (ms === null) {
+    fail('INVALID_DURATION', 'Duración inválida (ej: 30s, 10m, 2h, 7d).');
+    return undefined;
+  }
+  return ms;
+};
+
+// Solo se modera a usuarios de rango menor (y nunca a uno mismo)
+const canModerate = async ({ me, fail }: CommandContext, username: string) => {
+  if (username === me.username) {
+    fail('INVALID_TARGET', 'No podés moderarte a vos mismo.');
+    return false;
+  }
+  // Conectado: su rol de sesión; desconectado: el de su cuenta (los invitados son user)
+  const role = (await presence.get(username))?.role ?? (await roleOf(username));
+  if (!outranks(me.role, role)) {
+    fail('FORBIDDEN', `No podés moderar a "${username}".`);
+    return false;
+  }
+  return true;
+};
+
+const targetUsername = (raw: string | undefined, fail: Fail): string | null => {
+  if (!isValidUsername(raw)) {
+    fail('INVALID_USERNAME', 'Username inválido');
+    return null;
+  }
+  return raw.trim();
+};
+
+commands.register({
+  name: 'help',
+  aliases: ['ayuda'],
+  syntax: '[comando]',
+  description: 'Lista los comandos disponibles o explica uno.',
+  role: 'user',
+  run({ me, reply, fail }, [name]) {
+    if (name) {
+      const cmd = commands.find(name.replace(/^\//, '').toLowerCase());
+      if (!cmd || !hasRole(me.role, cmd.role)) return fail('UNKNOWN_COMMAND', `Comando desconocido: /${name}`);
+      const aliases = cmd.aliases?.length ? ` (también ${cmd.aliases.map((a) => `/${a}`).join(', ')})` : '';
+      return reply(`${commands.usage(cmd)}${aliases}: ${cmd.description}`);
+    }
+    reply(['Comandos:', ...commands.available(me.role).map((c) => `${commands.usage(c)}: ${c.description}`)].join('\n'));
+  },
+});
+
+commands.register({
+  name: 'me',
+  syntax: '<acción...>',
+  description: 'Describe una acción en tercera persona.',
+  role: 'user',
+  async run({ me, room, to, fail }, [action = '']) {
+    if (to) return deliverPrivate(me, to, { text: action, action: true }, fail);
+    const mutedMs = await mutes.mutedFor(me.username);
+    if (mutedMs > 0) return fail('MUTED', mutedMessage(mutedMs));
+    if (!isValidText(action)) return fail('INVALID_MESSAGE', INVALID_TEXT_MESSAGE);
+    const badFormat = textFormatProblem(action);
+    if (badFormat) return fail('INVALID_MESSAGE', badFormat);
+    const mentions = await resolveMentions(action);
+    const msg = await messages.append({
+      username: me.username,
+      text: action.trim(),
+      at: Date.now(),
+      room,
+      action: true,
+      ...withMentions(mentions),
+    });
+    stopTyping(me, roomKey(room));
+    io.to(roomKey(room)).emit('chat:public', msg);
+    webhooks.dispatch(msg);
+  },
+});
+
+commands.register({
+  name: 'msg',
+  syntax: '<usuario> <texto...>',
+  description: 'Envía un mensaje privado.',
+  role: 'user',
+  run({ me, fail }, [to = '', text = '']) {
+    return deliverPrivate(me, to, { text }, fail);
+  },
+});
+
+commands.register({
+  name: 'nick',
+  syntax: '<nuevo>',
+  description: 'Cambia tu nombre (solo invitados).',
+  role: 'user',
+  async run({ me, reply, fail }, [raw]) {
+    const name = targetUsername(raw, fail);
+    if (!name) return;
+    if (name === me.username) return fail('INVALID_USERNAME', 'Ya tenés ese nombre.');
+    // Las cuentas van ligadas a su nombre (el token lo lleva adentro)
+    if (await accounts.has(me.username)) return fail('FORBIDDEN', 'Las cuentas registradas no pueden cambiar de nombre.');
+    // Un silencio de moderación no se esquiva cambiando de nombre
+    const mutedMs = await mutes.mutedFor(me.username);
+    if (mutedMs > 0) return fail('MUTED', mutedMessage(mutedMs));
+    if (await accounts.has(name)) return fail('USERNAME_TAKEN', 'Ese nombre ya está en uso');
+    if (await bans.find(name, '')) return fail('FORBIDDEN', 'Ese nombre está baneado.');
+    if (!(await renameSession(me, name))) return fail('USERNAME_TAKEN', 'Ese nombre ya está en uso');
+    reply(`Ahora sos ${name}.`);
+  },
+});
+
+commands.register({
+  name: 'whois',
+  syntax: '<usuario>',
+  description: 'Muestra rol, estado y salas de un usuario.',
+  role: 'user',
+  async run({ me, reply, fail }, [name = '']) {
+    const target = await presence.get(name);
+    const seen = target?.lastSeen ?? (await presence.lastSeen(name));
+    if (!target && seen === undefined) return fail('USER_NOT_FOUND', `No hay datos de "${name}".`);
+    const registered = await accounts.has(name);
+    const kind = registered ? 'cuenta registrada' : 'invitado';
+    const role = target?.role ?? (await roleOf(registered ? name : undefined));
+    const lines = [`${name}: ${kind}, ${ROLE_LABEL[role]}`];
+    if (target) {
+      const state = target.online ? STATUS_LABEL[target.status] : 'reconectando';
+      lines.push(`Estado: ${state}`, `Salas: ${target.rooms.join(', ')}`);
+      if (hasRole(me.role, 'moderator')) {
+        const ips = await ipsOfUser(name);
+        if (ips.length > 0) lines.push(`IP: ${ips.join(', ')}`);
+      }
+    } else {
+      lines.push('Estado: desconectado');
+    }
+    if (seen !== undefined) lines.push(`Última actividad: hace ${describeDuration(Date.now() - seen)}`);
+    reply(lines.join('\n'));
+  },
+});
+
+commands.register({
+  name: 'listar',
+  aliases: ['who'],
+  syntax: '',
+  description: 'Lista los usuarios de la sala actual.',
+  role: 'user',
+  async run({ room, reply }) {
+    const users = (await presence.members(room)).map(({ username, status }) =>
+      status === 'online' ? username : `${username} (${STATUS_LABEL[status]})`
+    );
+    reply(`Conectados en ${room}: ${users.join(', ') || '—'}`);
+  },
+});
+
+commands.register({
+  name: 'quitar',
+  aliases: ['quit'],
+  syntax: '',
+  description: 'Sale del chat.',
+  role: 'user',
+  run({ socket, reply }) {
+    reply('Hasta luego.');
+    setTimeout(() => socket.disconnect(true), 50);
+  },
+});
+
+commands.register({
+  name: 'kick',
+  syntax: '<usuario>',
+  description: 'Expulsa a un usuario conectado.',
+  role: 'moderator',
+  async run(ctx, [raw]) {
+    const { me, fail } = ctx;
+    const name = targetUsername(raw, fail);
+    if (!name) return;
+    if (!(await presence.isTaken(name))) return fail('USER_NOT_FOUND', `El usuario "${name}" no está conectado.`);
+    if (!(await canModerate(ctx, name))) return;
+    expel(name, 'KICKED', `${me.username} te expulsó del chat.`);
+    announce({ action: 'kick', target: name, by: me.username, at: Date.now() });
+    console.log(`[mod] ${me.username} kicked "${name}"`);
+  },
+});
+
+commands.register({
+  name: 'ban',
+  syntax: '<usuario|ip> [duración]',
+  description: 'Banea un usuario o una IP (ej: 30s, 10m, 2h, 7d; sin duración es permanente).',
+  role: 'moderator',
+  async run(ctx, [raw = '', duration]) {
+    const { me, fail } = ctx;
+    const ms = durationOf(duration, fail);
+    if (ms === undefined) return;
+
+    let ban: Ban;
+    let affected: string[];
+    if (isIpAddress(raw)) {
+      const ip = normalizeIp(raw);
+      const users = await usersAtIp(ip);
+      if (users.includes(me.username)) return fail('INVALID_TARGET', 'No podés banear tu propia IP.');
+      const roles = await Promise.all(users.map(async (u) => (await presence.get(u))?.role ?? 'user'));
+      const protectedUser = users.find((_, i) => !outranks(me.role, roles[i] ?? 'user'));
+      if (protectedUser) return fail('FORBIDDEN', `No podés banear la IP de "${protectedUser}".`);
+      affected = users;
+      ban = { kind: 'ip', value: ip, until: ms === null ? null : Date.now() + ms, by: me.username, at: Date.now() };
+    } else {
+      const name = targetUsername(raw, fail);
+      if (!name || !(await canModerate(ctx, name))) return;
+      affected = [name];
+      ban = { kind: 'user', value: name, until: ms === null ? null : Date.now() + ms, by: me.username, at: Date.now() };
+    }
+
+    await bans.add(ban);
+    for (const target of affected) expel(target, 'BANNED', banMessage(ban));
+    announce({ action: 'ban', target: ban.value, by: me.username, until: ban.until, at: ban.at });
+    console.log(`[mod] ${me.username} banned ${ban.kind} "${ban.value}"${ms ? ` for ${describeDuration(ms)}` : ''}`);
+  },
+});
+
+commands.register({
+  name: 'unban',
+  syntax: '<usuario|ip>',
+  description: 'Levanta un ban.',
+  role: 'moderator',
+  async run({ me, fail }, [raw = '']) {
+    const kind = isIpAddress(raw) ? 'ip' : 'user';
+    const value = kind === 'ip' ? normalizeIp(raw) : raw;
+    if (!(await bans.remove(kind, value))) return fail('BAN_NOT_FOUND', `"${raw}" no está baneado.`);
+    announce({ action: 'unban', target: value, by: me.username, at: Date.now() });
+    console.log(`[mod] ${me.username} unbanned ${kind} "${value}"`);
+  },
+});
+
+commands.register({
+  name: 'mute',
+  syntax: '<usuario> [duración]',
+  description: 'Silencia a un usuario (sin duración, hasta que se lo quite).',
+  role: 'moderator',
+  async run(ctx, [raw, duration]) {
+    const { me, fail } = ctx;
+    const name = targetUsername(raw, fail);
+    if (!name || !(await canModerate(ctx, name))) return;
+    const ms = durationOf(duration, fail);
+    if (ms === undefined) return;
+    const until = ms === null ? null : Date.now() + ms;
+    await mutes.mute(name, until ?? Infinity);
+    announce({ action: 'mute', target: name, by: me.username, until, at: Date.now() });
+    console.log(`[mod] ${me.username} muted "${name}"${ms ? ` for ${describeDuration(ms)}` : ''}`);
+  },
+});
+
+commands.register({
+  name: 'unmute',
+  syntax: '<usuario>',
+  description: 'Quita el silencio a un usuario.',
+  role: 'moderator',
+  async run({ me, fail }, [raw]) {
+    const name = targetUsername(raw, fail);
+    if (!name) return;
+    if (!(await mutes.unmute(name))) return fail('NOT_MUTED', `"${name}" no está silenciado.`);
+    announce({ action: 'unmute', target: name, by: me.username, at: Date.now() });
+    console.log(`[mod] ${me.username} unmuted "${name}"`);
+  },
+});
+
+// Eventos que no se aceptan mientras el usuario está silenciado
+const MUTABLE_EVENTS = new Set(['chat:public', 'chat:private', 'command:run']);
+
+type RateLimitedError = { code: 'RATE_LIMITED'; message: string; retryAfterMs: number };
+
+// Límite de conexiones nuevas por IP
+io.use((socket, next) => {
+  const retryAfterMs = limiter.take('connection', { ip: socket.handshake.address });
+  if (retryAfterMs === 0) return next();
+  const err = new Error('RATE_LIMITED') as Error & { data?: { retryAfterMs: number } };
+  err.data = { retryAfterMs };
+  next(err);
+});
+
 /**
- * Estado en memoria (solo conectados)
+ * Handshake de Socket.IO: si viene un token en `auth`, debe ser válido.
+ * Sin token el usuario entra como invitado.
  */
-const usersBySocket = new Map<string, string>(); // socket.id -> username
-const socketsByUser = new Map<string, string>(); // username   -> socket.id
+io.use((socket, next) => {
+  const token = (socket.handshake.auth as { token?: unknown } | undefined)?.token;
+  if (token === undefined || token === null || token === '') return next();
+  const claims = verifyToken(token, authSecret);
+  if (!claims) return next(new Error('INVALID_TOKEN'));
+  Promise.all([accounts.has(claims.sub), accounts.isRevoked(claims)])
+    .then(([exists, revoked]) => {
+      if (!exists || revoked) return next(new Error('INVALID_TOKEN'));
+      socket.data.account = claims.sub;
+      socket.data.tokenIat = claims.iat;
+      next();
+    })
+    .catch((err: unknown) => {
+      console.error('[io] token error', err);
+      next(new Error('INTERNAL'));
+    });
+});
 
-type HelloPayload = { username: string };
-type ChatInPayload = { text: string };
-type ChatOutPayload = { username: string; text: string; at: number };
+// Payloads ya validados por el middleware contra los esquemas de shared/protocol
+type HelloPayload = ClientPayload<'hello'>;
+type RoomPayload = ClientPayload<'room:create'>;
+type ChatInPayload = ClientPayload<'chat:public'>;
+type HistoryFetchPayload = ClientPayload<'history:fetch'>;
+type PrivateInPayload = ClientPayload<'chat:private'>;
+type CommandPayload = ClientPayload<'command:run'>;
+type EditPayload = ClientPayload<'chat:edit'>;
+type DeletePayload = ClientPayload<'chat:delete'>;
+type ReactionPayload = ClientPayload<'reaction:add'>;
+type ThreadFetchPayload = ClientPayload<'thread:fetch'>;
+type SearchPayload = ClientPayload<'search:query'>;
+type TypingPayload = ClientPayload<'typing:start'>;
+type StatusPayload = ClientPayload<'status:set'>;
+type KeyPublishPayload = ClientPayload<'keys:publish'>;
+type KeyFetchPayload = ClientPayload<'keys:fetch'>;
+type RevokePayload = ClientPayload<'sessions:revoke'>;
 
 io.on('connection', (socket) => {
   console.log(`[io] connection ${socket.id} from ${socket.handshake.address}`);
 
-  let registered = false;
-  let username: string | null = null;
+  let session: Session | null = null;
+  let device: Device | null = null; // el de este socket dentro de `session`
+
+  // Las salas son del usuario: entran y salen todos sus dispositivos
+  const joinRoom = async (me: Session, room: string) => {
+    await presence.join(room, me.username);
+    me.rooms.add(room);
+    if (redis) io.serverSideEmit('session:rooms', me.username, room, true);
+    io.in(userKey(me.username)).socketsJoin(roomKey(room));
+    io.to(roomKey(room)).except(userKey(me.username)).emit('user_joined', { username: me.username, room });
+  };
+
+  // Devuelve true si la sala quedó vacía y se eliminó (nunca la global)
+  const leaveRoom = async (me: Session, room: string) => {
+    me.rooms.delete(room);
+    stopTyping(me, roomKey(room));
+    if (redis) io.serverSideEmit('session:rooms', me.username, room, false);
+    io.in(userKey(me.username)).socketsLeave(roomKey(room));
+    io.to(roomKey(room)).emit('user_left', { username: me.username, room });
+    return presence.leave(room, me.username);
+  };
+
+  const requireSession = (): Session | null => {
+    if (!session) {
+      socket.emit('server:error', { code: 'NOT_REGISTERED', message: 'Primero envía hello {username}.' });
+      return null;
+    }
+    return session;
+  };
+
+  const newDevice = (): Device => ({
+    id: newDeviceId(),
+    resumeToken: newResumeToken(),
+    socketId: null,
+    ip: normalizeIp(socket.handshake.address),
+    agent: String(socket.handshake.headers['user-agent'] ?? '').slice(0, 200),
+    connectedAt: Date.now(),
+    disconnectedAt: null,
+    graceTimer: null,
+    tokenIat: typeof socket.data.tokenIat === 'number' ? socket.data.tokenIat : null,
+    publicKey: null,
+  });
+
+  const bindSocket = async (me: Session, d: Device) => {
+    d.socketId = socket.id;
+    session = me;
+    device = d;
+    socket.join(userKey(me.username));
+    for (const room of me.rooms) socket.join(roomKey(room));
+    me.lastSeenWrittenAt = Date.now();
+    await Promise.all([
+      presence.update(me.username, { online: true, lastSeen: me.lastSeenWrittenAt }),
+      presence.setDeviceToken(d.resumeToken, me.username),
+    ]);
+  };
+
+  const sendWelcome = async (me: Session, d: Device, extra: Pick<WelcomePayload, 'resumed' | 'missed' | 'updated'>) => {
+    const [online, rooms] = await Promise.all([presence.online(), presence.rooms()]);
+    socket.emit('welcome', {
+      username: me.username,
+      connectedUsers: online.map((p) => p.username),
+      room: GLOBAL_ROOM,
+      rooms,
+      joined: Array.from(me.rooms),
+      history: await messages.recent(GLOBAL_ROOM, HISTORY_LIMIT),
+      resumeToken: d.resumeToken,
+      device: d.id,
+      role: me.role,
+      limits: config.limits,
+      ...extra,
+    });
+  };
+
+  /**
+   * Reanuda un dispositivo existente en este socket y envía lo que se perdió durante el corte
+   */
+  const resumeSession = async (me: Session, d: Device, since: number | undefined) => {
+    if (d.graceTimer) clearTimeout(d.graceTimer);
+    d.graceTimer = null;
+    if (d.socketId) {
+      // La conexión anterior sigue abierta (el servidor aún no detectó el corte): se reemplaza
+      const previous = io.sockets.sockets.get(d.socketId);
+      d.socketId = null;
+      previous?.disconnect(true);
+    }
+    const gapStart = since ?? d.disconnectedAt ?? Date.now();
+    d.disconnectedAt = null;
+    d.ip = normalizeIp(socket.handshake.address);
+    await presence.setDeviceToken(d.resumeToken, null);
+    d.resumeToken = newResumeToken();
+    await bindSocket(me, d);
+
+    const rooms = Array.from(me.rooms);
+    const missed = (await Promise.all(rooms.map((room) => messages.since(room, gapStart, MISSED_LIMIT)))).flat();
+    // Ediciones y borrados de mensajes que el cliente ya tenía
+    const updated = (await Promise.all(rooms.map((room) => messages.changedSince(room, gapStart, MISSED_LIMIT)))).flat();
+    await sendWelcome(me, d, { resumed: true, missed, updated });
+    await broadcastSessions(me.username);
+    console.log(`[io] ${socket.id} resumed session of "${me.username}" (${missed.length} perdidos)`);
+  };
+
+  /**
+   * Otro dispositivo de una sesión abierta: entra a las mismas salas sin avisar a nadie más
+   */
+  const addDevice = async (me: Session) => {
+    const d = newDevice();
+    me.devices.set(d.id, d);
+    await presence.setDevices(me.username, me.devices.size);
+    await bindSocket(me, d);
+    await sendWelcome(me, d, { resumed: false });
+    await broadcastSessions(me.username);
+    console.log(`[io] ${socket.id} joined the session of "${me.username}" (${me.devices.size} dispositivos)`);
+  };
+
+  /**
+   * Middleware por paquete: aplica los límites a todos los eventos entrantes.
+   * Si el evento trae ack, el rechazo va por ahí; si no, por server:error.
+   */
+  let flooded = false; // ya se decidió desconectarlo: se ignora lo que siga llegando
+  socket.use((packet, next) => {
+    const [event, ...args] = packet;
+    if (flooded) return;
+    if (session) touch(session);
+    const last = args[args.length - 1];
+    const ack = typeof last === 'function' ? (last as (res: unknown) => void) : null;
+    const reject = (retryAfterMs: number, message: string) => {
+      const err: RateLimitedError = { code: 'RATE_LIMITED', message, retryAfterMs };
+      if (ack) ack({ ok: false, ...err });
+      else socket.emit('server:error', err);
+    };
+
+    const offender = session ? `user:${session.username}` : `ip:${socket.handshake.address}`;
+    const MUTED_MESSAGE = 'Estás silenciado temporalmente por enviar demasiados mensajes.';
 
-  // Exigimos un handshake 'hello' en <= 5s
+    // Cada infracción (incluso insistir estando silenciado) suma para el castigo
+    const punish = (retryAfterMs: number) => {
+      const wasMuted = flood.mutedFor(offender) > 0;
+      const action = flood.strike(offender);
+      if (action === 'disconnect') {
+        flooded = true;
+        console.warn(`[io] ${socket.id} (${offender}) disconnected for flooding`);
+        reject(retryAfterMs, 'Desconectado por flood.');
+        setTimeout(() => socket.disconnect(true), 50);
+        return;
+      }
+      if (action === 'mute') {
+        if (!wasMuted) console.warn(`[io] ${socket.id} (${offender}) muted for flooding`);
+        return reject(flood.mutedFor(offender), MUTED_MESSAGE);
+      }
+      reject(retryAfterMs, 'Demasiados eventos, esperá un momento.');
+    };
+
+    if (MUTABLE_EVENTS.has(event)) {
+      const muted = flood.mutedFor(offender);
+      if (muted > 0) return punish(muted);
+    }
+
+    const who: Identity = { socket: socket.id, ip: socket.handshake.address };
+    if (session) who.user = session.username;
+    const retryAfterMs = limiter.take(event, who);
+    if (retryAfterMs > 0) return punish(retryAfterMs);
+
+    // Payload contra el esquema del evento: el handler recibe la copia validada
+    if (!isClientEvent(event)) return next();
+    const parsed = parseClientPayload(event, args[0]);
+    if (parsed.ok) {
+      if (packet.length > 1 && typeof packet[1] !== 'function') packet[1] = parsed.value;
+      return next();
+    }
+    if (ack) ack({ ok: false, ...parsed.error });
+    else socket.emit('server:error', parsed.error);
+    // Con un hello inválido no hay sesión posible
+    if (event === 'hello') setTimeout(() => socket.disconnect(true), 50);
+  });
+
+  // Exigimos un handshake 'hello' a tiempo
   const helloTimeout = setTimeout(() => {
-    if (!registered) {
-      socket.emit('server:error', { code: 'HELLO_TIMEOUT', message: 'Debe enviar hello {username} dentro de 5s.' });
+    if (!session) {
+      socket.emit('server:error', { code: 'HELLO_TIMEOUT', message: `Debe enviar hello {username} dentro de ${config.helloTimeoutMs / 1000}s.` });
       console.warn(`[io] ${socket.id} hello timeout`);
       socket.disconnect(true);
     }
-  }, 5000);
+  }, config.helloTimeoutMs);
 
-  socket.on('hello', (payload: HelloPayload) => {
+  let registering = false;
+  socket.on('hello', async (payload: HelloPayload) => {
+    if (session || registering) return; // se evita doble alta
+    registering = true;
     try {
-      if (registered) return; // se evita doble alta
-
-      if (!payload || !isValidUsername(payload.username)) {
-        socket.emit('server:error', { code: 'INVALID_USERNAME', message: 'Username inválido'});
+      if (!isValidUsername(payload.username)) {
+        socket.emit('server:error', { code: 'INVALID_USERNAME', message: 'Username inválido' });
+        return setTimeout(() => socket.disconnect(true), 50);
+      }
+      const protocol = payload.protocol ?? LEGACY_PROTOCOL_VERSION;
+      if (protocol !== PROTOCOL_VERSION) {
+        socket.emit('server:error', {
+          code: 'PROTOCOL_MISMATCH',
+          message: `El cliente usa la versión ${protocol} del protocolo y el servidor la ${PROTOCOL_VERSION}. Actualizá el cliente.`,
+        });
         // pequeño delay para que el cliente reciba el error antes de cerrar
         return setTimeout(() => socket.disconnect(true), 50);
       }
 
       const desired = payload.username.trim();
-      if (socketsByUser.has(desired)) {
-        socket.emit('server:error', { code: 'USERNAME_TAKEN', message: 'Ese nombre ya está en uso' });
+      const ip = normalizeIp(socket.handshake.address);
+      const ban = await bans.find(desired, ip);
+      if (ban) {
+        socket.emit('server:error', { code: 'BANNED', message: banMessage(ban) });
+        console.warn(`[io] ${socket.id} rejected: "${desired}" (${ip}) is banned`);
         return setTimeout(() => socket.disconnect(true), 50);
       }
 
-      // Registro en memoria
-      registered = true;
-      username = desired;
-      usersBySocket.set(socket.id, username);
-      socketsByUser.set(username, socket.id);
+      const account = socket.data.account as string | undefined;
+      if (account && desired !== account) {
+        socket.emit('server:error', { code: 'INVALID_TOKEN', message: 'El token no corresponde a ese usuario' });
+        return setTimeout(() => socket.disconnect(true), 50);
+      }
+      if (!account && (await accounts.has(desired))) {
+        socket.emit('server:error', { code: 'USERNAME_RESERVED', message: 'Ese nombre pertenece a una cuenta registrada' });
+        return setTimeout(() => socket.disconnect(true), 50);
+      }
+      const taken = () => {
+        socket.emit('server:error', { code: 'USERNAME_TAKEN', message: 'Ese nombre ya está en uso' });
+        setTimeout(() => socket.disconnect(true), 50);
+      };
+      const tooMany = () => {
+        socket.emit('server:error', {
+          code: 'TOO_MANY_SESSIONS',
+          message: `Ya tenés ${LIMITS.devicesPerUser} sesiones abiertas. Cerrá alguna para entrar desde acá.`,
+        });
+        setTimeout(() => socket.disconnect(true), 50);
+      };
+      // Un dispositivo se reanuda en la instancia que lo tiene (el balanceador debe mantener la afinidad)
+      const existing = sessions.get(desired);
+      if (existing) {
+        // Solo quien tiene el resumeToken de un dispositivo puede recuperar su lugar
+        const resumed = Array.from(existing.devices.values()).find((d) => d.resumeToken === payload.resumeToken);
+        if (resumed) {
+          const since = typeof payload.since === 'number' && Number.isFinite(payload.since) ? payload.since : undefined;
+          return await resumeSession(existing, resumed, since);
+        }
+        // Otro dispositivo: solo las cuentas (un invitado no tiene cómo probar que es el mismo)
+        if (!account) return taken();
+        const held = (await presence.get(desired))?.devices ?? 0;
+        if (Math.max(existing.devices.size, held) >= LIMITS.devicesPerUser) return tooMany();
+        return await addDevice(existing);
+      }
+      // Una cuenta puede sumar un dispositivo a la sesión que tiene otra instancia
+      if (account && ((await presence.get(desired))?.devices ?? 0) >= LIMITS.devicesPerUser) return tooMany();
 
-      // Respuesta al nuevo
-      const connectedUsers = Array.from(socketsByUser.keys());
-      socket.emit('welcome', { username, connectedUsers });
+      // Si no, el nombre tiene que estar libre en todas las instancias
+      const role = await roleOf(account);
+      const claimed = await presence.claim(desired, role, !!account);
+      if (!claimed) return taken();
+      if (socket.disconnected) {
+        if (!sessions.has(desired)) presence.release(desired).catch(logError('hello'));
+        return;
+      }
+      // Otro dispositivo de la cuenta llegó a esta instancia mientras tanto
+      const raced = sessions.get(desired);
+      if (raced) return await addDevice(raced);
 
-      // Notifica a los demás
-      socket.broadcast.emit('user_joined', { username });
+      const d = newDevice();
+      const me: Session = {
+        username: desired,
+        role,
+        typing: new Map(),
+        devices: new Map([[d.id, d]]),
+        rooms: new Set(),
+        lastSeenWrittenAt: 0,
+        sentByClientId: new Map(),
+      };
+      sessions.set(desired, me);
+      if (claimed === 'attached') {
+        // Ya está en el chat desde otra instancia: hereda sus salas sin anunciarse de nuevo
+        const shared = await presence.get(desired);
+        for (const room of shared?.rooms ?? []) me.rooms.add(room);
+      }
+      await bindSocket(me, d);
+
+      // Entra a la sala global (notifica a los demás)
+      if (claimed === 'claimed') await joinRoom(me, GLOBAL_ROOM);
 
-      console.log(`[io] ${socket.id} registered as "${username}"`);
+      // Respuesta al nuevo
+      await sendWelcome(me, d, { resumed: false });
+      await broadcastSessions(me.username);
+
+      if (claimed === 'attached') console.log(`[io] ${socket.id} joined "${me.username}" from another instance`);
+      else console.log(`[io] ${socket.id} registered as "${me.username}"${account ? ` (cuenta, ${me.role})` : ' (invitado)'}`);
     } catch (err) {
       console.error('[io] hello handler error', err);
       socket.emit('server:error', { code: 'INTERNAL', message: 'Error interno en hello.' });
     } finally {
+      registering = false;
       clearTimeout(helloTimeout);
     }
   });
 
-  socket.on('chat:public', (payload: ChatInPayload) => {
+  socket.on('room:create', async (payload: RoomPayload) => {
     try {
-      if (!registered || !username) {
-        socket.emit('server:error', { code: 'NOT_REGISTERED', message: 'Primero envía hello {username}.' });
+      const me = requireSession();
+      if (!me) return;
+      const user = me.username;
+      if (!payload || !isValidRoomName(payload.room)) {
+        socket.emit('server:error', { code: 'INVALID_ROOM', message: 'Nombre de sala inválido' });
+        return;
+      }
+      const room = payload.room.trim();
+      if (!(await presence.createRoom(room))) {
+        socket.emit('server:error', { code: 'ROOM_EXISTS', message: `La sala "${room}" ya existe` });
         return;
       }
-      if (!payload || !isValidText(payload.text)) {
-        socket.emit('server:error', { code: 'INVALID_MESSAGE', message: 'Mensaje vacío o demasiado largo (≤2000).' });
+      await joinRoom(me, room);
+      io.to(userKey(me.username)).emit('room:joined', {
+        room,
+        users: await usersOf(room),
+        history: await messages.recent(room, HISTORY_LIMIT),
+      });
+      broadcastRooms();
+      console.log(`[io] ${user} created room "${room}"`);
+    } catch (err) {
+      console.error('[io] room:create error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error creando sala.' });
+    }
+  });
+
+  socket.on('room:join', async (payload: RoomPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      const room = typeof payload?.room === 'string' ? payload.room.trim() : '';
+      if (!(await presence.hasRoom(room))) {
+        socket.emit('server:error', { code: 'ROOM_NOT_FOUND', message: `La sala "${room}" no existe` });
         return;
       }
-      const msg: ChatOutPayload = {
-        username,
-        text: payload.text.trim(),
+      // Si es nueva para el usuario la ven todos sus dispositivos
+      const target = me.rooms.has(room) ? socket : io.to(userKey(me.username));
+      if (!me.rooms.has(room)) {
+        await joinRoom(me, room);
+        broadcastRooms();
+      }
+      target.emit('room:joined', {
+        room,
+        users: await usersOf(room),
+        history: await messages.recent(room, HISTORY_LIMIT),
+      });
+    } catch (err) {
+      console.error('[io] room:join error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error uniéndose a la sala.' });
+    }
+  });
+
+  socket.on('room:leave', async (payload: RoomPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      const room = typeof payload?.room === 'string' ? payload.room.trim() : '';
+      if (room === GLOBAL_ROOM) {
+        socket.emit('server:error', { code: 'INVALID_ROOM', message: 'No se puede salir de la sala global' });
+        return;
+      }
+      if (!me.rooms.has(room)) {
+        socket.emit('server:error', { code: 'NOT_IN_ROOM', message: `No estás en la sala "${room}"` });
+        return;
+      }
+      await leaveRoom(me, room);
+      io.to(userKey(me.username)).emit('room:left', { room });
+      broadcastRooms();
+    } catch (err) {
+      console.error('[io] room:leave error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error saliendo de la sala.' });
+    }
+  });
+
+  socket.on('room:list', async () => {
+    try {
+      socket.emit('rooms:list', { rooms: await presence.rooms() });
+    } catch (err) {
+      console.error('[io] room:list error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error listando salas.' });
+    }
+  });
+
+  /**
+   * chat:public acepta un ack opcional. Sin ack (clientes viejos) los errores van por server:error.
+   */
+  socket.on('chat:public', async (payload: ChatInPayload, ack?: (res: ChatAck) => void) => {
+    const reply = typeof ack === 'function' ? ack : null;
+    const fail = (code: string, message: string) => {
+      if (reply) reply({ ok: false, code, message });
+      else socket.emit('server:error', { code, message });
+    };
+    try {
+      if (!session) return fail('NOT_REGISTERED', 'Primero envía hello {username}.');
+      const me = session;
+      const mutedMs = await mutes.mutedFor(me.username);
+      if (mutedMs > 0) return fail('MUTED', mutedMessage(mutedMs));
+      if (!payload) return fail('INVALID_MESSAGE', INVALID_TEXT_MESSAGE);
+
+      // Adjuntos: subidos antes por el mismo usuario
+      const ids: unknown[] = Array.isArray(payload.attachments) ? payload.attachments : [];
+      if (ids.length > LIMITS.attachmentsPerMessage) {
+        return fail('INVALID_ATTACHMENT', `Como máximo ${LIMITS.attachmentsPerMessage} adjuntos por mensaje.`);
+      }
+      const files = await Promise.all(ids.map((id) => (typeof id === 'string' ? attachments.get(id) : undefined)));
+      if (files.some((f) => !f || f.uploader !== me.username)) return fail('INVALID_ATTACHMENT', 'Adjunto inválido.');
+      const attached = (files as Attachment[]).map(toInfo);
+
+      // Con adjuntos el texto puede quedar vacío
+      const text = typeof payload.text === 'string' ? payload.text.trim() : '';
+      if (!isValidText(text) && !(attached.length > 0 && text === '')) {
+        return fail('INVALID_MESSAGE', INVALID_TEXT_MESSAGE);
+      }
+      const badFormat = textFormatProblem(text);
+      if (badFormat) return fail('INVALID_MESSAGE', badFormat);
+      const room = typeof payload.room === 'string' ? payload.room.trim() : GLOBAL_ROOM;
+      if (!me.rooms.has(room)) return fail('NOT_IN_ROOM', `No estás en la sala "${room}"`);
+      // Antes de mirar el clientId: desde ahí hasta registrarlo no se espera nada
+      const mentions = await resolveMentions(text);
+
+      // Respuesta: el mensaje citado tiene que existir en la misma sala
+      let replyTo: ReplyRef | undefined;
+      if (payload.replyTo !== undefined) {
+        const parent = typeof payload.replyTo === 'string' ? await messages.get(payload.replyTo) : undefined;
+        if (!parent || parent.deleted || parent.room !== room) {
+          return fail('REPLY_NOT_FOUND', 'El mensaje al que respondés no existe en esta sala.');
+        }
+        const snippet =
+          parent.text.length > REPLY_SNIPPET_LENGTH ? `${parent.text.slice(0, REPLY_SNIPPET_LENGTH)}…` : parent.text;
+        replyTo = { id: parent.id, username: parent.username, text: snippet };
+      }
+
+      // Reintento de un mensaje ya publicado (o que se está guardando): se confirma sin duplicarlo
+      const clientId =
+        typeof payload.clientId === 'string' && payload.clientId.length > 0 && payload.clientId.length <= 64
+          ? payload.clientId
+          : undefined;
+      const previous = clientId ? me.sentByClientId.get(clientId) : undefined;
+      if (previous) {
+        const sent = await previous;
+        reply?.({ ok: true, id: sent.id, at: sent.at });
+        return;
+      }
+
+      const saving = messages.append({
+        username: me.username,
+        text,
         at: Date.now(),
-      };
-      io.emit('chat:public', msg);
+        room,
+        ...(replyTo ? { replyTo } : {}),
+        ...(attached.length > 0 ? { attachments: attached } : {}),
+        ...withMentions(mentions),
+      });
+      if (clientId) {
+        me.sentByClientId.set(clientId, saving);
+        // Si no se pudo guardar, el reintento lo vuelve a intentar
+        saving.catch(() => {
+          if (me.sentByClientId.get(clientId) === saving) me.sentByClientId.delete(clientId);
+        });
+        if (me.sentByClientId.size > CLIENT_ID_MEMORY) {
+          const oldest = me.sentByClientId.keys().next().value;
+          if (oldest !== undefined) me.sentByClientId.delete(oldest);
+        }
+      }
+      const msg = await saving;
+      const out: ChatOutPayload = clientId ? { ...msg, clientId } : msg;
+      stopTyping(me, roomKey(room));
+      io.to(roomKey(room)).emit('chat:public', out);
+      reply?.({ ok: true, id: msg.id, at: msg.at });
+      webhooks.dispatch(msg);
     } catch (err) {
       console.error('[io] chat handler error', err);
-      socket.emit('server:error', { code: 'INTERNAL', message: 'Error interno enviando mensaje.' });
+      fail('INTERNAL', 'Error interno enviando mensaje.');
+    }
+  });
+
+  /**
+   * Edición y borrado: solo el autor o un moderador. Los cambios se difunden como chat:updated
+   */
+  const modifiableMessage = async (me: Session, id: unknown): Promise<ChatMessage | null> => {
+    const msg = typeof id === 'string' ? await messages.get(id) : undefined;
+    if (!msg || msg.deleted) {
+      socket.emit('server:error', { code: 'MESSAGE_NOT_FOUND', message: 'El mensaje no existe o fue borrado.' });
+      return null;
+    }
+    if (!me.rooms.has(msg.room)) {
+      socket.emit('server:error', { code: 'NOT_IN_ROOM', message: `No estás en la sala "${msg.room}"` });
+      return null;
+    }
+    // Los mensajes de bots no son de nadie aunque el nombre coincida
+    const own = msg.username === me.username && !msg.bot;
+    if (!own && !hasRole(me.role, 'moderator')) {
+      socket.emit('server:error', { code: 'FORBIDDEN', message: 'Solo podés modificar tus propios mensajes.' });
+      return null;
+    }
+    return msg;
+  };
+
+  socket.on('chat:edit', async (payload: EditPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      const mutedMs = await mutes.mutedFor(me.username);
+      if (mutedMs > 0) {
+        socket.emit('server:error', { code: 'MUTED', message: mutedMessage(mutedMs) });
+        return;
+      }
+      const msg = await modifiableMessage(me, payload?.id);
+      if (!msg) return;
+      if (!isValidText(payload.text)) {
+        socket.emit('server:error', { code: 'INVALID_MESSAGE', message: INVALID_TEXT_MESSAGE });
+        return;
+      }
+      const badFormat = textFormatProblem(payload.text);
+      if (badFormat) {
+        socket.emit('server:error', { code: 'INVALID_MESSAGE', message: badFormat });
+        return;
+      }
+      const mentions = await resolveMentions(payload.text);
+      const updated = await messages.edit(msg.id, payload.text.trim(), mentions);
+      if (updated) io.to(roomKey(updated.room)).emit('chat:updated', updated);
+    } catch (err) {
+      console.error('[io] chat:edit error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error editando mensaje.' });
     }
   });
 
-  socket.on('command:list', () => {
+  socket.on('chat:delete', async (payload: DeletePayload) => {
     try {
-      const users = Array.from(socketsByUser.keys());
-      socket.emit('users:list', { users });
+      const me = requireSession();
+      if (!me) return;
+      const msg = await modifiableMessage(me, payload?.id);
+      if (!msg) return;
+      const removed = await messages.remove(msg.id);
+      if (!removed) return;
+      io.to(roomKey(removed.room)).emit('chat:updated', removed);
+      if (removed.username !== me.username) console.log(`[mod] ${me.username} deleted a message by "${removed.username}"`);
+    } catch (err) {
+      console.error('[io] chat:delete error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error borrando mensaje.' });
+    }
+  });
+
+  const handleReaction = async (payload: ReactionPayload, add: boolean) => {
+    const me = requireSession();
+    if (!me) return;
+    const mutedMs = await mutes.mutedFor(me.username);
+    if (mutedMs > 0) {
+      socket.emit('server:error', { code: 'MUTED', message: mutedMessage(mutedMs) });
+      return;
+    }
+    const msg = typeof payload?.id === 'string' ? await messages.get(payload.id) : undefined;
+    if (!msg || msg.deleted) {
+      socket.emit('server:error', { code: 'MESSAGE_NOT_FOUND', message: 'El mensaje no existe o fue borrado.' });
+      return;
+    }
+    if (!me.rooms.has(msg.room)) {
+      socket.emit('server:error', { code: 'NOT_IN_ROOM', message: `No estás en la sala "${msg.room}"` });
+      return;
+    }
+    if (!isValidEmoji(payload.emoji)) {
+      socket.emit('server:error', { code: 'INVALID_REACTION', message: 'Reacción inválida.' });
+      return;
+    }
+    const existing = msg.reactions ?? {};
+    if (add && !(payload.emoji in existing) && Object.keys(existing).length >= MAX_REACTIONS_PER_MESSAGE) {
+      socket.emit('server:error', { code: 'TOO_MANY_REACTIONS', message: 'Ese mensaje ya tiene demasiadas reacciones distintas.' });
+      return;
+    }
+    if (await messages.react(msg.id, payload.emoji, me.username, add)) scheduleReactionUpdate(msg.id);
+  };
+
+  socket.on('reaction:add', async (payload: ReactionPayload) => {
+    try {
+      await handleReaction(payload, true);
+    } catch (err) {
+      console.error('[io] reaction:add error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error agregando reacción.' });
+    }
+  });
+
+  socket.on('reaction:remove', async (payload: ReactionPayload) => {
+    try {
+      await handleReaction(payload, false);
+    } catch (err) {
+      console.error('[io] reaction:remove error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error quitando reacción.' });
+    }
+  });
+
+  socket.on('thread:fetch', async (payload: ThreadFetchPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      const thread = typeof payload?.id === 'string' ? await messages.thread(payload.id) : undefined;
+      if (!thread || !me.rooms.has(thread.parent.room)) {
+        socket.emit('server:error', { code: 'MESSAGE_NOT_FOUND', message: 'El mensaje no existe.' });
+        return;
+      }
+      socket.emit('thread:page', { id: thread.parent.id, ...thread });
+    } catch (err) {
+      console.error('[io] thread:fetch error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error obteniendo el hilo.' });
+    }
+  });
+
+  socket.on('history:fetch', async (payload: HistoryFetchPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      const room = typeof payload?.room === 'string' ? payload.room.trim() : GLOBAL_ROOM;
+      if (!me.rooms.has(room)) {
+        socket.emit('server:error', { code: 'NOT_IN_ROOM', message: `No estás en la sala "${room}"` });
+        return;
+      }
+      const { before, after, around } = payload;
+      if ([before, after, around].filter((c) => c !== undefined).length > 1) {
+        socket.emit('server:error', { code: 'INVALID_PAYLOAD', message: 'Usá solo uno de before, after o around.' });
+        return;
+      }
+      const requested = typeof payload.limit === 'number' && Number.isFinite(payload.limit) ? payload.limit : HISTORY_LIMIT;
+      const limit = Math.min(Math.max(Math.trunc(requested), 1), LIMITS.historyPageMax);
+      if (after !== undefined) {
+        socket.emit('history:page', { room, after, ...(await messages.after(room, after, limit)) });
+      } else if (around !== undefined) {
+        // Para saltar a un mensaje viejo (p. ej. desde la búsqueda)
+        const page = await messages.around(room, around, limit);
+        if (!page) {
+          socket.emit('server:error', { code: 'MESSAGE_NOT_FOUND', message: 'El mensaje no existe.' });
+          return;
+        }
+        socket.emit('history:page', { room, around, ...page });
+      } else {
+        socket.emit('history:page', { room, before, ...(await messages.before(room, before, limit)) });
+      }
+    } catch (err) {
+      console.error('[io] history:fetch error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error obteniendo historial.' });
+    }
+  });
+
+  // Solo en las salas en las que está (o en una de ellas, con `room`)
+  socket.on('search:query', async (payload: SearchPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      const { q, author, since, until, before } = payload;
+      const room = payload.room?.trim();
+      if (room !== undefined && !me.rooms.has(room)) {
+        socket.emit('server:error', { code: 'NOT_IN_ROOM', message: `No estás en la sala "${room}"` });
+        return;
+      }
+      if (before !== undefined && !(await messages.get(before))) {
+        socket.emit('server:error', { code: 'INVALID_CURSOR', message: 'La página pedida ya no existe.' });
+        return;
+      }
+      const requested = typeof payload.limit === 'number' ? payload.limit : SEARCH_PAGE;
+      const limit = Math.min(Math.max(Math.trunc(requested), 1), LIMITS.searchPageMax);
+      const rooms = new Set(room !== undefined ? [room] : me.rooms);
+      const found = await searchMessages(messages, { q, rooms, author, since, until, before, limit });
+      if (!found) {
+        socket.emit('server:error', { code: 'INVALID_QUERY', message: 'La búsqueda no tiene ningún término.' });
+        return;
+      }
+      socket.emit('search:results', { q, ...(before ? { before } : {}), ...found });
+    } catch (err) {
+      console.error('[io] search:query error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error buscando mensajes.' });
+    }
+  });
+
+  socket.on('chat:private', async (payload: PrivateInPayload) => {
+    try {
+      const me = requireSession();
+      const d = device;
+      if (!me || !d) return;
+      const to = typeof payload?.to === 'string' ? payload.to : '';
+      const fail: Fail = (code, message) => socket.emit('server:error', { code, message });
+      if (payload.ciphers && payload.text) return fail('INVALID_MESSAGE', 'Un mensaje cifrado no lleva texto.');
+      await deliverPrivate(me, to, payload.ciphers ? { ciphers: payload.ciphers, device: d.id } : { text: payload.text }, fail);
+    } catch (err) {
+      console.error('[io] chat:private handler error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error interno enviando mensaje privado.' });
+    }
+  });
+
+  socket.on('command:list', async (payload?: Partial<RoomPayload>) => {
+    try {
+      const room = typeof payload?.room === 'string' ? payload.room.trim() : GLOBAL_ROOM;
+      if (!(await presence.hasRoom(room))) {
+        socket.emit('server:error', { code: 'ROOM_NOT_FOUND', message: `La sala "${room}" no existe` });
+        return;
+      }
+      socket.emit('users:list', { room, users: await usersOf(room) });
     } catch (err) {
       console.error('[io] command:list error', err);
       socket.emit('server:error', { code: 'INTERNAL', message: 'Error listando usuarios.' });
     }
   });
 
+  // Destino válido de un indicador de escritura (null = se ignora en silencio)
+  const typingKey = async (me: Session, payload: TypingPayload | undefined): Promise<string | null> => {
+    if (typeof payload?.room === 'string') {
+      const room = payload.room.trim();
+      return me.rooms.has(room) ? roomKey(room) : null;
+    }
+    if (typeof payload?.to === 'string') {
+      const to = payload.to.trim();
+      if (to === me.username) return null;
+      // Al terminar no hace falta que siga conectado
+      return me.typing.has(`dm:${to}`) || (await presence.get(to))?.online ? `dm:${to}` : null;
+    }
+    return null;
+  };
+
+  socket.on('typing:start', async (payload: TypingPayload) => {
+    try {
+      const me = requireSession();
+      if (!me || (await mutes.mutedFor(me.username)) > 0) return;
+      const key = await typingKey(me, payload);
+      if (key) startTyping(me, key);
+    } catch (err) {
+      console.error('[io] typing:start error', err);
+    }
+  });
+
+  socket.on('typing:stop', async (payload: TypingPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      const key = await typingKey(me, payload);
+      if (key) stopTyping(me, key);
+    } catch (err) {
+      console.error('[io] typing:stop error', err);
+    }
+  });
+
+  socket.on('status:set', async (payload: StatusPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      await presence.update(me.username, { status: payload.status });
+      const info = await presence.get(me.username);
+      if (info) io.emit('presence', toUserInfo(info));
+    } catch (err) {
+      console.error('[io] status:set error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error cambiando el estado.' });
+    }
+  });
+
+  // Claves públicas para los privados cifrados, una por dispositivo: se guardan con la presencia
+  // (duran lo que el dispositivo)
+  socket.on('keys:publish', async (payload: KeyPublishPayload) => {
+    try {
+      const me = requireSession();
+      const d = device;
+      if (!me || !d || d.publicKey === payload.publicKey) return;
+      d.publicKey = payload.publicKey;
+      await publishKeys(me);
+    } catch (err) {
+      console.error('[io] keys:publish error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error publicando la clave.' });
+    }
+  });
+
+  socket.on('keys:fetch', async (payload: KeyFetchPayload, ack?: (res: KeyInfo) => void) => {
+    try {
+      if (!requireSession() || typeof ack !== 'function') return;
+      const username = payload.username.trim();
+      ack({ username, keys: deviceKeys((await presence.get(username))?.publicKeys) });
+    } catch (err) {
+      console.error('[io] keys:fetch error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error obteniendo la clave.' });
+    }
+  });
+
+  socket.on('sessions:list', async () => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      socket.emit('sessions:list', { sessions: await devicesOf(me.username) });
+    } catch (err) {
+      console.error('[io] sessions:list error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error listando las sesiones.' });
+    }
+  });
+
+  /**
+   * Cierra otros dispositivos de la misma sesión, estén en esta instancia o en otra
+   */
+  socket.on('sessions:revoke', async (payload: RevokePayload) => {
+    try {
+      const me = requireSession();
+      const self = device;
+      if (!me || !self) return;
+      const id = payload.id?.trim() || null;
+      if (id === self.id) {
+        socket.emit('server:error', { code: 'INVALID_TARGET', message: 'Para cerrar esta sesión usá "Salir".' });
+        return;
+      }
+      if (id && !me.devices.has(id) && !(await devicesOf(me.username)).some((d) => d.id === id)) {
+        socket.emit('server:error', { code: 'SESSION_NOT_FOUND', message: 'Esa sesión ya no existe.' });
+        return;
+      }
+      const keep = { id: self.id, tokenIat: self.tokenIat };
+      const closed = await revokeDevices(me, id, keep);
+      if (redis && !(id && closed > 0)) io.serverSideEmit('session:revoke', me.username, id, keep.id, keep.tokenIat);
+      console.log(`[io] ${me.username} revoked ${id ? `session ${id}` : 'all other sessions'}`);
+    } catch (err) {
+      console.error('[io] sessions:revoke error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error cerrando la sesión.' });
+    }
+  });
+
+  socket.on('command:run', async (payload: CommandPayload) => {
+    try {
+      const me = requireSession();
+      if (!me) return;
+      const fail: Fail = (code, message) => socket.emit('server:error', { code, message });
+      const parsed = typeof payload?.input === 'string' ? parseCommand(payload.input) : null;
+      if (!parsed) return fail('UNKNOWN_COMMAND', 'Eso no es un comando. Probá /help.');
+      const cmd = commands.find(parsed.name);
+      if (!cmd) return fail('UNKNOWN_COMMAND', `Comando desconocido: /${parsed.name}. Probá /help.`);
+      if (!hasRole(me.role, cmd.role)) return fail('FORBIDDEN', `No tenés permisos para usar /${cmd.name}.`);
+      const args = commands.args(cmd, parsed.rawArgs);
+      if (!args) return fail('INVALID_COMMAND', `Uso: ${commands.usage(cmd)}`);
+      const room = typeof payload.room === 'string' ? payload.room.trim() : GLOBAL_ROOM;
+      if (!me.rooms.has(room)) return fail('NOT_IN_ROOM', `No estás en la sala "${room}"`);
+      const to = typeof payload.to === 'string' && payload.to.trim() ? payload.to.trim() : null;
+      const reply = (text: string) => socket.emit('system:message', { text, at: Date.now() });
+      await cmd.run({ me, socket, room, to, reply, fail }, args);
+    } catch (err) {
+      console.error('[io] command:run error', err);
+      socket.emit('server:error', { code: 'INTERNAL', message: 'Error ejecutando el comando.' });
+    }
+  });
+
   socket.on('command:quit', () => {
     try {
       socket.disconnect(true);
@@ -136,15 +2094,39 @@ io.on('connection', (socket) => {
 
   socket.on('disconnect', (reason) => {
     clearTimeout(helloTimeout);
-    const leftUser = usersBySocket.get(socket.id);
-    if (leftUser) {
-      usersBySocket.delete(socket.id);
-      socketsByUser.delete(leftUser);
-      socket.broadcast.emit('user_left', { username: leftUser });
-      console.log(`[io] ${socket.id} (${leftUser}) disconnected: ${reason}`);
-    } else {
+    const me = session;
+    const d = device;
+    if (!me || !d) {
       console.log(`[io] ${socket.id} disconnected before register: ${reason}`);
+      return;
+    }
+    if (me.devices.get(d.id) !== d) {
+      console.log(`[io] ${socket.id} (${me.username}) disconnected: sesión cerrada`);
+      return;
+    }
+    if (d.socketId !== socket.id) {
+      console.log(`[io] ${socket.id} (${me.username}) replaced by a resumed connection`);
+      return;
     }
+    // Salida voluntaria (o expulsada por el servidor): el dispositivo se va ya (y la sesión, si era el último)
+    if (reason === 'client namespace disconnect' || reason === 'server namespace disconnect') {
+      removeDevice(me, d).catch(logError('disconnect'));
+      console.log(`[io] ${socket.id} (${me.username}) disconnected: ${reason}`);
+      return;
+    }
+    // Corte de red: se mantiene el dispositivo durante el período de gracia
+    d.socketId = null;
+    d.disconnectedAt = Date.now();
+    if (!isOnline(me)) {
+      stopAllTyping(me);
+      presence.update(me.username, { online: false, lastSeen: d.disconnectedAt }).catch(logError('disconnect'));
+    }
+    broadcastSessions(me.username).catch(logError('disconnect'));
+    d.graceTimer = setTimeout(() => {
+      console.log(`[io] device ${d.id} of "${me.username}" expired`);
+      removeDevice(me, d).catch(logError('session expiry'));
+    }, RESUME_GRACE_MS);
+    console.log(`[io] ${socket.id} (${me.username}) disconnected: ${reason}, esperando reanudación`);
   });
 
   //Manejo de errores de socket
@@ -153,6 +2135,31 @@ io.on('connection', (socket) => {
   });
 });
 
-httpServer.listen(PORT, '0.0.0.0', () => {
-  console.log(`Server running on http://0.0.0.0:${PORT}`);
-});
\ No newline at end of file
+/**
+ * Arranque: con Redis primero se conecta (se anuncia la instancia y se lee el secreto compartido),
+ * después se escucha
+ */
+const start = async () => {
+  if (redis && redisSub) await Promise.all([redis.connect(), redisSub.connect()]);
+  if (redis) authSecret = await loadSharedSecret(redis, REDIS_PREFIX);
+  await presence.start();
+  httpServer.listen(config.port, config.host, () => {
+    const shared = redis ? `, instancia ${INSTANCE_ID} con Redis` : '';
+    console.log(`Server running on ${config.tls ? 'https' : 'http'}://${config.host}:${config.port}${shared}`);
+  });
+};
+
+start().catch((err: unknown) => {
+  console.error('[server] no se pudo arrancar', err);
+  process.exit(1);
+});
+
+// Al apagar, la instancia deja de anunciarse: sus usuarios dejan de contar enseguida
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    presence
+      .close()
+      .catch(logError('shutdown'))
+      .finally(() => process.exit(0));
+  });
+}
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { isIP } from 'node:net';
+import type { Role } from '../../shared/protocol';
+import type { RedisClient } from './presence';
+
+export type { Role };
+
+const ROLE_RANK: Record<Role, number> = { user: 0, moderator: 1, admin: 2 };
+
+export const isRole = (r: unknown): r is Role => r === 'admin' || r === 'moderator' || r === 'user';
+
+export const hasRole = (role: Role, required: Role) => ROLE_RANK[role] >= ROLE_RANK[required];
+
+/** Solo se puede moderar a alguien de rango menor */
+export const outranks = (actor: Role, target: Role) => ROLE_RANK[actor] > ROLE_RANK[target];
+
+/**
+ * Roles de arranque por variables de entorno (ADMIN_USERS / MODERATOR_USERS, separados por comas).
+ * Solo aplican a cuentas registradas.
+ */
+const envList = (name: string) =>
+  new Set(
+    (process.env[name] ?? '')
+      .split(',')
+      .map((u) => u.trim())
+      .filter(Boolean)
+  );
+const envAdmins = envList('ADMIN_USERS');
+const envModerators = envList('MODERATOR_USERS');
+
+export const roleFromEnv = (username: string): Role | undefined =>
+  envAdmins.has(username) ? 'admin' : envModerators.has(username) ? 'moderator' : undefined;
+
+/**
+ * Duraciones tipo "30s", "10m", "2h", "7d". Devuelve ms, o null si el formato es inválido.
+ */
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+export const parseDuration = (raw: string): number | null => {
+  const match = /^(\d+)\s*([smhd])$/i.exec(raw.trim());
+  if (!match || !match[1] || !match[2]) return null;
+  const amount = Number(match[1]);
+  const unit = DURATION_UNITS[match[2].toLowerCase()];
+  return amount > 0 && unit ? amount * unit : null;
+};
+
+/** Inversa aproximada de parseDuration, para los mensajes ("2h", "10m") */
+export const describeDuration = (ms: number) => {
+  for (const unit of ['d', 'h', 'm'] as const) {
+    const size = DURATION_UNITS[unit] ?? 0;
+    if (ms >= size) return `${Math.round(ms / size)}${unit}`;
+  }
+  return `${Math.max(1, Math.ceil(ms / 1000))}s`;
+};
+
+/** Quita el prefijo IPv4-mapeado ("::ffff:127.0.0.1" -> "127.0.0.1") */
+export const normalizeIp = (address: string) => address.replace(/^::ffff:/, '');
+
+export const isIpAddress = (value: string) => isIP(normalizeIp(value)) !== 0;
+
+export type Ban = {
+  kind: 'user' | 'ip';
+  value: string;
+  until: number | null; // null = permanente
+  by: string;
+  at: number;
+};
+
+export interface BanStore {
+  /** Ban vigente que afecta al usuario o a la IP */
+  find(username: string | null, ip: string, now?: number): Promise<Ban | undefined>;
+  add(ban: Ban): Promise<void>;
+  remove(kind: Ban['kind'], value: string): Promise<boolean>;
+}
+
+/**
+ * Bans persistidos en un archivo JSON local. Los vencidos se descartan al consultarlos.
+ */
+export const createFileBanStore = (file: string): BanStore => {
+  let bans: Ban[] = existsSync(file) ? (JSON.parse(readFileSync(file, 'utf8')) as Ban[]) : [];
+
+  const persist = () => {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(bans, null, 2));
+  };
+
+  const prune = (now: number) => {
+    const before = bans.length;
+    bans = bans.filter((b) => b.until === null || b.until > now);
+    if (bans.length !== before) persist();
+  };
+
+  return {
+    async find(username, ip, now = Date.now()) {
+      prune(now);
+      const addr = normalizeIp(ip);
+      return bans.find((b) => (b.kind === 'user' ? b.value === username : b.value === addr));
+    },
+
+    async add(ban) {
+      const value = ban.kind === 'ip' ? normalizeIp(ban.value) : ban.value;
+      bans = bans.filter((b) => !(b.kind === ban.kind && b.value === value));
+      bans.push({ ...ban, value });
+      persist();
+    },
+
+    async remove(kind, value) {
+      const target = kind === 'ip' ? normalizeIp(value) : value;
+      const before = bans.length;
+      bans = bans.filter((b) => !(b.kind === kind && b.value === target));
+      if (bans.length === before) return false;
+      persist();
+      return true;
+    },
+  };
+};
+
+/**
+ * Bans compartidos entre instancias: una clave `<prefix>ban:<user|ip>:<valor>` por ban (JSON),
+ * que vence sola cuando el ban es temporal.
+ */
+export const createRedisBanStore = (client: RedisClient, prefix = 'chat:'): BanStore => {
+  const banKey = (kind: Ban['kind'], value: string) => `${prefix}ban:${kind}:${value}`;
+
+  return {
+    async find(username, ip, now = Date.now()) {
+      const keys = [banKey('ip', normalizeIp(ip)), ...(username ? [banKey('user', username)] : [])];
+      const found = (await client.mGet(keys))
+        .filter((raw): raw is string => typeof raw === 'string')
+        .map((raw) => JSON.parse(raw) as Ban);
+      return found.find((b) => b.until === null || b.until > now);
+    },
+
+    async add(ban) {
+      const value = ban.kind === 'ip' ? normalizeIp(ban.value) : ban.value;
+      await client.set(banKey(ban.kind, value), JSON.stringify({ ...ban, value }), {
+        ...(ban.until !== null ? { expiration: { type: 'PXAT' as const, value: ban.until } } : {}),
+      });
+    },
+
+    async remove(kind, value) {
+      const target = kind === 'ip' ? normalizeIp(value) : value;
+      return (await client.del(banKey(kind, target))) > 0;
+    },
+  };
+};
+
+export interface MuteList {
+  /** `until` = Infinity para silenciar sin plazo */
+  mute(username: string, until: number): Promise<void>;
+  /** Devuelve false si no estaba silenciado (o ya había vencido) */
+  unmute(username: string, now?: number): Promise<boolean>;
+  /** ms restantes de silencio (0 si no está silenciado) */
+  mutedFor(username: string, now?: number): Promise<number>;
+}
+
+/**
+ * Silenciados por moderadores (en memoria: un reinicio los libera)
+ */
+export const createMuteList = (): MuteList => {
+  const mutedUntil = new Map<string, number>(); // username -> hasta (Infinity = indefinido)
+
+  return {
+    async mute(username, until) {
+      mutedUntil.set(username, until);
+    },
+    async unmute(username, now = Date.now()) {
+      const active = (mutedUntil.get(username) ?? 0) > now;
+      mutedUntil.delete(username);
+      return active;
+    },
+    async mutedFor(username, now = Date.now()) {
+      const until = mutedUntil.get(username) ?? 0;
+      if (until <= now) {
+        mutedUntil.delete(username);
+        return 0;
+      }
+      return until - now;
+    },
+  };
+};
+
+/**
+ * Silenciados compartidos entre instancias: `<prefix>mute:<nombre>` guarda hasta cuándo
+ * ("inf" sin plazo) y vence sola.
+ */
+export const createRedisMuteList = (client: RedisClient, prefix = 'chat:'): MuteList => {
+  const muteKey = (u: string) => `${prefix}mute:${u}`;
+  const untilOf = (raw: string | null) => (raw === null ? 0 : raw === 'inf' ? Infinity : Number(raw));
+
+  return {
+    async mute(username, until) {
+      if (until === Infinity) await client.set(muteKey(username), 'inf');
+      else await client.set(muteKey(username), String(until), { expiration: { type: 'PXAT', value: until } });
+    },
+    async unmute(username, now = Date.now()) {
+      return untilOf(await client.getDel(muteKey(username))) > now;
+    },
+    async mutedFor(username, now = Date.now()) {
+      const until = untilOf(await client.get(muteKey(username)));
+      return until > now ? until - now : 0;
+    },
+  };
+};
@@ -0,0 +1,477 @@
+import { createHash } from 'node:crypto';
+import { createClient } from 'redis';
+import { GLOBAL_ROOM, type Role, type RoomInfo, type UserInfo, type UserStatus } from '../../shared/protocol';
+
+/**
+ * Quién está en el chat, compartido entre instancias del servidor: nombres tomados,
+ * estado, última actividad y miembros de cada sala. Lo atado a un socket (timers,
+ * reanudación, idempotencia) sigue siendo local de cada instancia; de los resumeToken
+ * solo se comparte a quién pertenecen.
+ */
+export type Presence = UserInfo & {
+  role: Role;
+  online: boolean; // false durante el período de gracia tras un corte (de todos sus dispositivos)
+  devices: number; // dispositivos conectados o en gracia, sumando todas las instancias
+  rooms: string[];
+  publicKeys?: Record<string, string>; // dispositivo -> clave, para los privados cifrados (ver Cipher en shared/protocol)
+};
+
+export interface PresenceStore {
+  /** Conecta y empieza a anunciar esta instancia */
+  start(): Promise<void>;
+  close(): Promise<void>;
+  /**
+   * Reserva el nombre para esta instancia; false si lo tiene otra sesión (en esta o en otra).
+   * Con `shared` (cuentas) se suma a la sesión que ya tiene otra instancia: 'attached'
+   */
+  claim(username: string, role: Role, shared?: boolean): Promise<'claimed' | 'attached' | false>;
+  /** Cuántos dispositivos de la sesión tiene esta instancia */
+  setDevices(username: string, count: number): Promise<void>;
+  isTaken(username: string): Promise<boolean>;
+  /**
+   * Esta instancia suelta la sesión. Si no queda en ninguna otra, libera el nombre y lo saca de sus
+   * salas (las que quedan vacías se borran) y devuelve las salas que dejó; si sigue en otra, null
+   */
+  release(username: string): Promise<string[] | null>;
+  /** Cambia el nombre conservando estado y salas; false si el nuevo está tomado */
+  rename(from: string, to: string): Promise<boolean>;
+  /**
+   * Registra el resumeToken de un dispositivo de esta instancia (null: lo olvida). Con él se
+   * autentica por HTTP (subidas) en cualquier instancia
+   */
+  setDeviceToken(token: string, username: string | null): Promise<void>;
+  /** Dueño del token, si lo registró una instancia que sigue viva */
+  deviceTokenOwner(token: string): Promise<string | undefined>;
+  /** `online` y `publicKeys` son los de los dispositivos de esta instancia */
+  update(username: string, patch: Partial<Pick<Presence, 'status' | 'online' | 'lastSeen' | 'publicKeys'>>): Promise<void>;
+  get(username: string): Promise<Presence | undefined>;
+  /** Última actividad conocida, también de quien ya se fue */
+  lastSeen(username: string): Promise<number | undefined>;
+  /** Conectados ahora (sin los que están en período de gracia) */
+  online(): Promise<Presence[]>;
+  /** Crea una sala vacía; false si ya existe */
+  createRoom(room: string): Promise<boolean>;
+  hasRoom(room: string): Promise<boolean>;
+  join(room: string, username: string): Promise<void>;
+  /** true si la sala quedó vacía y se borró (la global nunca) */
+  leave(room: string, username: string): Promise<boolean>;
+  members(room: string): Promise<Presence[]>;
+  rooms(): Promise<RoomInfo[]>;
+}
+
+export const toUserInfo = ({ username, status, lastSeen }: Presence): UserInfo => ({ username, status, lastSeen });
+
+const byName = (a: Presence, b: Presence) => a.username.localeCompare(b.username);
+
+/**
+ * En memoria: una sola instancia (el comportamiento de siempre)
+ */
+export const createMemoryPresenceStore = (): PresenceStore => {
+  type Entry = Omit<Presence, 'rooms'> & { rooms: Set<string> };
+  const users = new Map<string, Entry>();
+  const rooms = new Map<string, Set<string>>(); // sala -> usernames
+  const lastSeen = new Map<string, number>();
+  const tokens = new Map<string, string>(); // resumeToken -> username
+  rooms.set(GLOBAL_ROOM, new Set());
+
+  const snapshot = (e: Entry): Presence => ({ ...e, rooms: Array.from(e.rooms) });
+
+  const leave = (room: string, username: string) => {
+    users.get(username)?.rooms.delete(room);
+    const members = rooms.get(room);
+    members?.delete(username);
+    if (!members || members.size > 0 || room === GLOBAL_ROOM) return false;
+    rooms.delete(room);
+    return true;
+  };
+
+  return {
+    start: async () => {},
+    close: async () => {},
+
+    async claim(username, role, shared = false) {
+      const entry = users.get(username);
+      if (entry) {
+        if (!shared) return false;
+        entry.devices += 1;
+        return 'attached';
+      }
+      const now = Date.now();
+      users.set(username, { username, role, status: 'online', online: true, devices: 1, lastSeen: now, rooms: new Set() });
+      lastSeen.set(username, now);
+      return 'claimed';
+    },
+
+    async setDevices(username, count) {
+      const entry = users.get(username);
+      if (entry) entry.devices = count;
+    },
+
+    isTaken: async (username) => users.has(username),
+
+    async setDeviceToken(token, username) {
+      if (username) tokens.set(token, username);
+      else tokens.delete(token);
+    },
+
+    deviceTokenOwner: async (token) => tokens.get(token),
+
+    async release(username) {
+      const entry = users.get(username);
+      if (!entry) return [];
+      const left = Array.from(entry.rooms);
+      for (const room of left) leave(room, username);
+      users.delete(username);
+      lastSeen.set(username, Date.now());
+      return left;
+    },
+
+    async rename(from, to) {
+      const entry = users.get(from);
+      if (!entry || users.has(to)) return false;
+      users.delete(from);
+      entry.username = to;
+      entry.lastSeen = Date.now();
+      users.set(to, entry);
+      for (const room of entry.rooms) {
+        rooms.get(room)?.delete(from);
+        rooms.get(room)?.add(to);
+      }
+      lastSeen.delete(from);
+      lastSeen.set(to, entry.lastSeen);
+      return true;
+    },
+
+    async update(username, patch) {
+      const entry = users.get(username);
+      if (!entry) return;
+      Object.assign(entry, patch);
+      if (patch.lastSeen !== undefined) lastSeen.set(username, patch.lastSeen);
+    },
+
+    get: async (username) => {
+      const entry = users.get(username);
+      return entry ? snapshot(entry) : undefined;
+    },
+
+    lastSeen: async (username) => lastSeen.get(username),
+
+    online: async () => Array.from(users.values(), snapshot).filter((p) => p.online).sort(byName),
+
+    async createRoom(room) {
+      if (rooms.has(room)) return false;
+      rooms.set(room, new Set());
+      return true;
+    },
+
+    hasRoom: async (room) => rooms.has(room),
+
+    async join(room, username) {
+      const entry = users.get(username);
+      const members = rooms.get(room);
+      if (!entry || !members) return;
+      members.add(username);
+      entry.rooms.add(room);
+    },
+
+    leave: async (room, username) => leave(room, username),
+
+    members: async (room) =>
+      Array.from(rooms.get(room) ?? [], (u) => users.get(u))
+        .filter((e): e is Entry => e !== undefined)
+        .map(snapshot)
+        .sort(byName),
+
+    rooms: async () => Array.from(rooms, ([name, members]) => ({ name, members: members.size })),
+  };
+};
+
+/**
+ * En Redis: varias instancias comparten el estado. Claves (con `prefix`):
+ *   user:<nombre>        hash con role, status y lastSeen, y por cada instancia que tiene dispositivos
+ *                        de la sesión devices:<id> (cuántos), online:<id> y keys:<id> (JSON)
+ *   user-rooms:<nombre>  set con las salas del usuario
+ *   room:<sala>          set con los miembros
+ *   rooms                set con las salas que existen
+ *   instance:<id>        latido de cada instancia (con vencimiento)
+ *   last-seen            hash nombre -> última actividad (sobrevive a la salida)
+ * Si una instancia se cae sus usuarios dejan de contar cuando vence su latido,
+ * y sus nombres se pueden volver a tomar.
+ */
+export const createRedisClient = (url: string) => createClient({ url });
+export type RedisClient = ReturnType<typeof createRedisClient>;
+
+const HEARTBEAT_MS = 10_000;
+const HEARTBEAT_TTL_S = 30;
+
+// ¿Alguna instancia viva tiene dispositivos de la sesión guardada en `key`?
+const LIVE_LUA = `
+local function live(key, prefix)
+  local fields = redis.call('HKEYS', key)
+  for _, field in ipairs(fields) do
+    if string.sub(field, 1, 8) == 'devices:' and redis.call('EXISTS', prefix .. 'instance:' .. string.sub(field, 9)) == 1 then
+      return true
+    end
+  end
+  return false
+end`;
+
+// Toma el nombre si está libre o si sus instancias están caídas (limpiando sus salas).
+// Si la sesión sigue viva y se permite compartirla (ARGV[6]), se suma esta instancia. 1 = tomado, 2 = sumado
+const CLAIM_SCRIPT = `${LIVE_LUA}
+if live(KEYS[1], ARGV[1]) then
+  if ARGV[6] ~= '1' then return 0 end
+  redis.call('HINCRBY', KEYS[1], 'devices:' .. ARGV[3], 1)
+  redis.call('HSET', KEYS[1], 'online:' .. ARGV[3], '1')
+  return 2
+end
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  for _, room in ipairs(redis.call('SMEMBERS', KEYS[2])) do redis.call('SREM', ARGV[1] .. 'room:' .. room, ARGV[2]) end
+  redis.call('DEL', KEYS[1], KEYS[2])
+end
+redis.call('HSET', KEYS[1], 'devices:' .. ARGV[3], 1, 'online:' .. ARGV[3], '1', 'role', ARGV[4], 'status', 'online', 'lastSeen', ARGV[5])
+redis.call('HSET', ARGV[1] .. 'last-seen', ARGV[2], ARGV[5])
+return 1`;
+
+// Quita los dispositivos de esta instancia. Si no queda ninguna viva, saca al usuario de sus salas
+// y borra las que quedan vacías (menos la global): devuelve las salas. Si no, nil
+const RELEASE_SCRIPT = `${LIVE_LUA}
+redis.call('HDEL', KEYS[1], 'devices:' .. ARGV[5], 'online:' .. ARGV[5], 'keys:' .. ARGV[5])
+if live(KEYS[1], ARGV[1]) then return false end
+local left = redis.call('SMEMBERS', KEYS[2])
+for _, room in ipairs(left) do
+  local key = ARGV[1] .. 'room:' .. room
+  redis.call('SREM', key, ARGV[2])
+  if room ~= ARGV[3] and redis.call('SCARD', key) == 0 then redis.call('SREM', ARGV[1] .. 'rooms', room) end
+end
+redis.call('DEL', KEYS[1], KEYS[2])
+redis.call('HSET', ARGV[1] .. 'last-seen', ARGV[2], ARGV[4])
+return left`;
+
+const RENAME_SCRIPT = `${LIVE_LUA}
+if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+if live(KEYS[3], ARGV[1]) then return 0 end
+redis.call('DEL', KEYS[3], KEYS[4])
+redis.call('RENAME', KEYS[1], KEYS[3])
+redis.call('HSET', KEYS[3], 'lastSeen', ARGV[4])
+if redis.call('EXISTS', KEYS[2]) == 1 then
+  redis.call('RENAME', KEYS[2], KEYS[4])
+  for _, room in ipairs(redis.call('SMEMBERS', KEYS[4])) do
+    redis.call('SREM', ARGV[1] .. 'room:' .. room, ARGV[2])
+    redis.call('SADD', ARGV[1] .. 'room:' .. room, ARGV[3])
+  end
+end
+redis.call('HDEL', ARGV[1] .. 'last-seen', ARGV[2])
+redis.call('HSET', ARGV[1] .. 'last-seen', ARGV[3], ARGV[4])
+return 1`;
+
+const JOIN_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 or redis.call('SISMEMBER', ARGV[1] .. 'rooms', ARGV[2]) == 0 then return 0 end
+redis.call('SADD', KEYS[2], ARGV[2])
+redis.call('SADD', ARGV[1] .. 'room:' .. ARGV[2], ARGV[3])
+return 1`;
+
+const LEAVE_SCRIPT = `
+redis.call('SREM', KEYS[2], ARGV[2])
+local key = ARGV[1] .. 'room:' .. ARGV[2]
+redis.call('SREM', key, ARGV[3])
+if ARGV[2] ~= ARGV[4] and redis.call('SCARD', key) == 0 then
+  redis.call('SREM', ARGV[1] .. 'rooms', ARGV[2])
+  return 1
+end
+return 0`;
+
+export const createRedisPresenceStore = (client: RedisClient, instance: string, prefix = 'chat:'): PresenceStore => {
+  const userKey = (u: string) => `${prefix}user:${u}`;
+  const userRoomsKey = (u: string) => `${prefix}user-rooms:${u}`;
+  const roomKey = (r: string) => `${prefix}room:${r}`;
+  const roomsKey = `${prefix}rooms`;
+  const lastSeenKey = `${prefix}last-seen`;
+  const instanceKey = (id: string) => `${prefix}instance:${id}`;
+  // hash(resumeToken) -> "<instancia> <username>"; el token en sí no se guarda
+  const tokensKey = `${prefix}device-tokens`;
+  const tokenField = (token: string) => createHash('sha256').update(token).digest('base64url');
+  let heartbeat: NodeJS.Timeout | null = null;
+
+  const run = async (script: string, keys: string[], args: (string | number)[]) =>
+    client.eval(script, { keys, arguments: args.map(String) });
+
+  const beat = () => client.set(instanceKey(instance), String(Date.now()), { EX: HEARTBEAT_TTL_S });
+
+  // Instancias con dispositivos de la sesión (campos devices:<id>)
+  const instancesOf = (hash: Record<string, string>) =>
+    Object.keys(hash)
+      .filter((field) => field.startsWith('devices:'))
+      .map((field) => field.slice('devices:'.length));
+
+  // Presencias de varios usuarios, sumando lo de sus instancias vivas (las caídas no cuentan)
+  const load = async (names: string[]): Promise<Presence[]> => {
+    if (names.length === 0) return [];
+    const multi = client.multi();
+    for (const name of names) multi.hGetAll(userKey(name)).sMembers(userRoomsKey(name));
+    const replies = (await multi.exec()) as unknown as (Record<string, string> | string[])[];
+    const entries = names.map((username, i) => ({
+      username,
+      hash: replies[i * 2] as Record<string, string>,
+      rooms: replies[i * 2 + 1] as string[],
+    }));
+    const instances = Array.from(new Set(entries.flatMap((e) => instancesOf(e.hash))));
+    const alive = new Set<string>();
+    if (instances.length > 0) {
+      const beats = await client.mGet(instances.map(instanceKey));
+      instances.forEach((id, i) => beats[i] && alive.add(id));
+    }
+    return entries
+      .map(({ username, hash, rooms }) => {
+        const live = instancesOf(hash).filter((id) => alive.has(id));
+        if (live.length === 0) return undefined;
+        const publicKeys: Record<string, string> = {};
+        for (const id of live) Object.assign(publicKeys, JSON.parse(hash[`keys:${id}`] ?? '{}') as Record<string, string>);
+        const presence: Presence = {
+          username,
+          role: (hash.role ?? 'user') as Role,
+          status: (hash.status ?? 'online') as UserStatus,
+          online: live.some((id) => hash[`online:${id}`] === '1'),
+          devices: live.reduce((sum, id) => sum + Number(hash[`devices:${id}`] ?? 0), 0),
+          lastSeen: Number(hash.lastSeen ?? 0),
+          rooms,
+          ...(Object.keys(publicKeys).length > 0 ? { publicKeys } : {}),
+        };
+        return presence;
+      })
+      .filter((p): p is Presence => p !== undefined)
+      .sort(byName);
+  };
+
+  return {
+    async start() {
+      await beat();
+      // Los que dejaron las instancias caídas
+      const owners = Object.entries(await client.hGetAll(tokensKey)).map(([field, owner]) => ({ field, id: owner.split(' ')[0] ?? '' }));
+      const ids = Array.from(new Set(owners.map((o) => o.id)));
+      if (ids.length > 0) {
+        const beats = await client.mGet(ids.map(instanceKey));
+        const dead = new Set(ids.filter((_, i) => !beats[i]));
+        const stale = owners.filter((o) => dead.has(o.id)).map((o) => o.field);
+        if (stale.length > 0) await client.hDel(tokensKey, stale);
+      }
+      heartbeat = setInterval(() => {
+        beat().catch((err: unknown) => console.error('[presence] heartbeat error', err));
+      }, HEARTBEAT_MS);
+      heartbeat.unref();
+      await client.sAdd(roomsKey, GLOBAL_ROOM);
+    },
+
+    async close() {
+      if (heartbeat) clearInterval(heartbeat);
+      await client.del(instanceKey(instance));
+    },
+
+    async claim(username, role, shared = false) {
+      const result = await run(
+        CLAIM_SCRIPT,
+        [userKey(username), userRoomsKey(username)],
+        [prefix, username, instance, role, Date.now(), shared ? 1 : 0]
+      );
+      return result === 1 ? 'claimed' : result === 2 ? 'attached' : false;
+    },
+
+    async setDevices(username, count) {
+      if (await client.exists(userKey(username))) await client.hSet(userKey(username), `devices:${instance}`, count);
+    },
+
+    async isTaken(username) {
+      return (await load([username])).length > 0;
+    },
+
+    async release(username) {
+      const left = await run(
+        RELEASE_SCRIPT,
+        [userKey(username), userRoomsKey(username)],
+        [prefix, username, GLOBAL_ROOM, Date.now(), instance]
+      );
+      return left as string[] | null;
+    },
+
+    async rename(from, to) {
+      const ok = await run(
+        RENAME_SCRIPT,
+        [userKey(from), userRoomsKey(from), userKey(to), userRoomsKey(to)],
+        [prefix, from, to, Date.now()]
+      );
+      return ok === 1;
+    },
+
+    async setDeviceToken(token, username) {
+      if (username) await client.hSet(tokensKey, tokenField(token), `${instance} ${username}`);
+      else await client.hDel(tokensKey, tokenField(token));
+    },
+
+    async deviceTokenOwner(token) {
+      const owner = await client.hGet(tokensKey, tokenField(token));
+      const [id = '', username] = owner?.split(' ') ?? [];
+      if (!username) return undefined;
+      if (await client.exists(instanceKey(id))) return username;
+      await client.hDel(tokensKey, tokenField(token));
+      return undefined;
+    },
+
+    async update(username, patch) {
+      const fields: Record<string, string> = {};
+      if (patch.status !== undefined) fields.status = patch.status;
+      if (patch.online !== undefined) fields[`online:${instance}`] = patch.online ? '1' : '0';
+      if (patch.lastSeen !== undefined) fields.lastSeen = String(patch.lastSeen);
+      if (patch.publicKeys !== undefined) fields[`keys:${instance}`] = JSON.stringify(patch.publicKeys);
+      if (Object.keys(fields).length === 0 || !(await client.exists(userKey(username)))) return;
+      const multi = client.multi().hSet(userKey(username), fields);
+      if (fields.lastSeen) multi.hSet(lastSeenKey, username, fields.lastSeen);
+      await multi.exec();
+    },
+
+    async get(username) {
+      return (await load([username]))[0];
+    },
+
+    async lastSeen(username) {
+      const raw = await client.hGet(lastSeenKey, username);
+      return raw ? Number(raw) : undefined;
+    },
+
+    async online() {
+      // Los nombres tomados están en las salas: todos pasan por la global
+      const all = await load(await client.sMembers(roomKey(GLOBAL_ROOM)));
+      return all.filter((p) => p.online);
+    },
+
+    async createRoom(room) {
+      return (await client.sAdd(roomsKey, room)) === 1;
+    },
+
+    async hasRoom(room) {
+      return (await client.sIsMember(roomsKey, room)) === 1;
+    },
+
+    async join(room, username) {
+      await run(JOIN_SCRIPT, [userKey(username), userRoomsKey(username)], [prefix, room, username]);
+    },
+
+    async leave(room, username) {
+      const removed = await run(LEAVE_SCRIPT, [userKey(username), userRoomsKey(username)], [prefix, room, username, GLOBAL_ROOM]);
+      return removed === 1;
+    },
+
+    async members(room) {
+      return load(await client.sMembers(roomKey(room)));
+    },
+
+    async rooms() {
+      const names = await client.sMembers(roomsKey);
+      const members = await Promise.all(names.map((name) => client.sMembers(roomKey(name))));
+      const alive = new Set((await load(Array.from(new Set(members.flat())))).map((p) => p.username));
+      return names
+        .map((name, i) => ({ name, members: (members[i] ?? []).filter((u) => alive.has(u)).length }))
+        // Salas que quedaron vacías por la caída de otra instancia: no se muestran
+        .filter((r) => r.members > 0 || r.name === GLOBAL_ROOM);
+    },
+  };
+};
@@ -0,0 +1,202 @@
+import { isClientEvent } from '../../shared/protocol';
+
+/**
+ * Rate limiting con token buckets.
+ * Cada tipo de evento tiene sus límites por socket, por usuario y por IP.
+ */
+export type BucketConfig = { capacity: number; refillPerSec: number };
+
+export type Scope = 'socket' | 'user' | 'ip';
+
+export type EventLimits = Partial<Record<Scope, BucketConfig>>;
+
+export type RateLimits = Record<string, EventLimits>;
+
+export type FloodConfig = {
+  windowMs: number; // ventana en la que se cuentan las infracciones
+  muteAfter: number; // infracciones para silenciar
+  muteMs: number;
+  disconnectAfter: number; // infracciones para desconectar
+};
+
+/** Límites para eventos que no figuran en la tabla */
+export const DEFAULT_EVENT = '*';
+
+export const DEFAULT_LIMITS: RateLimits = {
+  connection: { ip: { capacity: 20, refillPerSec: 0.5 } },
+  hello: { socket: { capacity: 3, refillPerSec: 0.1 }, ip: { capacity: 10, refillPerSec: 0.2 } },
+  'chat:public': {
+    socket: { capacity: 8, refillPerSec: 1 },
+    user: { capacity: 10, refillPerSec: 1 },
+    ip: { capacity: 30, refillPerSec: 3 },
+  },
+  'chat:private': {
+    socket: { capacity: 8, refillPerSec: 1 },
+    user: { capacity: 10, refillPerSec: 1 },
+    ip: { capacity: 30, refillPerSec: 3 },
+  },
+  'room:create': { user: { capacity: 3, refillPerSec: 0.05 } },
+  'command:run': { socket: { capacity: 8, refillPerSec: 1 }, user: { capacity: 10, refillPerSec: 1 } },
+  upload: { user: { capacity: 5, refillPerSec: 0.2 }, ip: { capacity: 10, refillPerSec: 0.5 } },
+  webhook: { user: { capacity: 10, refillPerSec: 0.5 } },
+  api: { user: { capacity: 30, refillPerSec: 2 }, ip: { capacity: 60, refillPerSec: 5 } },
+  // Cada búsqueda recorre el historial completo
+  'search:query': { socket: { capacity: 5, refillPerSec: 0.5 }, user: { capacity: 8, refillPerSec: 0.5 } },
+  'reaction:add': { socket: { capacity: 10, refillPerSec: 2 }, user: { capacity: 15, refillPerSec: 2 } },
+  [DEFAULT_EVENT]: { socket: { capacity: 20, refillPerSec: 5 } },
+};
+
+export const DEFAULT_FLOOD: FloodConfig = {
+  windowMs: 60_000,
+  muteAfter: 5,
+  muteMs: 60_000,
+  disconnectAfter: 10,
+};
+
+type Bucket = { tokens: number; updatedAt: number; cfg: BucketConfig };
+
+export type Identity = Partial<Record<Scope, string>>;
+
+export const createRateLimiter = (limits: RateLimits) => {
+  const buckets = new Map<string, Bucket>();
+
+  const refill = (bucket: Bucket, now: number) => {
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(bucket.cfg.capacity, bucket.tokens + elapsed * bucket.cfg.refillPerSec);
+    bucket.updatedAt = now;
+  };
+
+  return {
+    /**
+     * Consume un token de cada bucket que aplica al evento.
+     * Devuelve 0 si pasa, o los ms que hay que esperar (sin consumir nada).
+     */
+    take(event: string, who: Identity, now = Date.now()): number {
+      const eventLimits = limits[event] ?? limits[DEFAULT_EVENT] ?? {};
+      const hits: Bucket[] = [];
+      let waitMs = 0;
+      for (const scope of ['socket', 'user', 'ip'] as const) {
+        const cfg = eventLimits[scope];
+        const id = who[scope];
+        if (!cfg || !id) continue;
+        const key = `${event}|${scope}:${id}`;
+        let bucket = buckets.get(key);
+        if (!bucket) {
+          bucket = { tokens: cfg.capacity, updatedAt: now, cfg };
+          buckets.set(key, bucket);
+        }
+        refill(bucket, now);
+        if (bucket.tokens < 1) {
+          const wait = cfg.refillPerSec > 0 ? ((1 - bucket.tokens) / cfg.refillPerSec) * 1000 : Infinity;
+          waitMs = Math.max(waitMs, Math.ceil(wait));
+        }
+        hits.push(bucket);
+      }
+      if (waitMs > 0) return waitMs;
+      for (const bucket of hits) bucket.tokens -= 1;
+      return 0;
+    },
+
+    /** Descarta los buckets que ya se llenaron de nuevo (no aportan información) */
+    sweep(now = Date.now()) {
+      for (const [key, bucket] of buckets) {
+        refill(bucket, now);
+        if (bucket.tokens >= bucket.cfg.capacity) buckets.delete(key);
+      }
+    },
+  };
+};
+
+export type FloodAction = 'none' | 'mute' | 'disconnect';
+
+/**
+ * Infractores reincidentes: tras varias infracciones en la ventana se silencian y luego se desconectan
+ */
+export const createFloodGuard = (config: FloodConfig) => {
+  const strikes = new Map<string, number[]>(); // key -> timestamps de infracciones
+  const mutedUntil = new Map<string, number>();
+
+  return {
+    strike(key: string, now = Date.now()): FloodAction {
+      const recent = (strikes.get(key) ?? []).filter((t) => now - t < config.windowMs);
+      recent.push(now);
+      strikes.set(key, recent);
+      if (recent.length >= config.disconnectAfter) return 'disconnect';
+      if (recent.length >= config.muteAfter) {
+        if ((mutedUntil.get(key) ?? 0) <= now) mutedUntil.set(key, now + config.muteMs);
+        return 'mute';
+      }
+      return 'none';
+    },
+
+    /** ms que le quedan de silencio (0 si no está silenciado) */
+    mutedFor(key: string, now = Date.now()): number {
+      const until = mutedUntil.get(key) ?? 0;
+      if (until <= now) {
+        mutedUntil.delete(key);
+        return 0;
+      }
+      return until - now;
+    },
+
+    sweep(now = Date.now()) {
+      for (const [key, times] of strikes) {
+        if (times.every((t) => now - t >= config.windowMs)) strikes.delete(key);
+      }
+      for (const [key, until] of mutedUntil) if (until <= now) mutedUntil.delete(key);
+    },
+  };
+};
+
+const SCOPES: readonly string[] = ['socket', 'user', 'ip'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Ajustes sobre DEFAULT_LIMITS (RATE_LIMITS en JSON, o `rateLimits` en el archivo), con la misma forma.
+ * Cada scope que aparece reemplaza al de por defecto; los errores se agregan a `problems`.
+ */
+export const parseRateLimits = (raw: unknown, label: string, problems: string[]): RateLimits => {
+  const merged: RateLimits = { ...DEFAULT_LIMITS };
+  let overrides = raw;
+  if (typeof raw === 'string') {
+    try {
+      overrides = JSON.parse(raw) as unknown;
+    } catch (err) {
+      problems.push(`${label}: JSON inválido (${err instanceof Error ? err.message : String(err)})`);
+      return merged;
+    }
+  }
+  if (!isObject(overrides)) {
+    problems.push(`${label}: se esperaba un objeto { evento: { scope: { capacity, refillPerSec } } }`);
+    return merged;
+  }
+
+  const isAmount = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+  for (const [event, scopes] of Object.entries(overrides)) {
+    if (!Object.hasOwn(DEFAULT_LIMITS, event) && !isClientEvent(event)) {
+      problems.push(`${label}: evento desconocido "${event}"`);
+      continue;
+    }
+    if (!isObject(scopes)) {
+      problems.push(`${label}: ${event}: se esperaba un objeto con socket, user o ip`);
+      continue;
+    }
+    const limits: EventLimits = { ...merged[event] };
+    let valid = true;
+    for (const [scope, bucket] of Object.entries(scopes)) {
+      if (!SCOPES.includes(scope)) {
+        problems.push(`${label}: ${event}: scope desconocido "${scope}" (socket, user o ip)`);
+        valid = false;
+      } else if (!isObject(bucket) || !isAmount(bucket.capacity) || !isAmount(bucket.refillPerSec)) {
+        problems.push(`${label}: ${event}.${scope}: capacity y refillPerSec deben ser números no negativos`);
+        valid = false;
+      } else {
+        limits[scope as Scope] = { capacity: bucket.capacity, refillPerSec: bucket.refillPerSec };
+      }
+    }
+    if (valid) merged[event] = limits;
+  }
+  return merged;
+};
@@ -0,0 +1,89 @@
+import type { ChatMessage, SearchHit, SearchSnippet } from '../../shared/protocol';
+import type { MessageStore } from './store';
+
+export const SEARCH_PAGE = 20;
+const MAX_TERMS = 8;
+// Largo del fragmento que acompaña a cada resultado
+const SNIPPET_LENGTH = 160;
+// Contexto que se deja antes de la primera coincidencia
+const SNIPPET_LEAD = 40;
+
+/**
+ * Minúsculas y sin tildes. Se pliega unidad por unidad para que cada posición del resultado
+ * sea la misma que en el texto original (así se marcan las coincidencias sobre el original).
+ */
+export const fold = (text: string) => {
+  const lower = text.toLowerCase();
+  const same = lower.length === text.length ? lower : text.split('').map((c) => c.toLowerCase()[0] ?? c).join('');
+  return same.replace(/[^\u0000-\u007f]/g, (c) => c.normalize('NFD')[0] ?? c);
+};
+
+/** Palabras sueltas o "frases entre comillas"; todas tienen que aparecer */
+export const parseTerms = (q: string) => {
+  const terms = new Set<string>();
+  for (const [, phrase, word] of q.matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = fold((phrase ?? word ?? '').trim());
+    if (term) terms.add(term);
+  }
+  return Array.from(terms).slice(0, MAX_TERMS);
+};
+
+/** Rangos [inicio, fin) de todas las coincidencias, ordenados y sin solaparse; null si falta algún término */
+export const matchRanges = (text: string, terms: string[]): Array<[number, number]> | null => {
+  const folded = fold(text);
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let at = folded.indexOf(term);
+    if (at === -1) return null;
+    while (at !== -1) {
+      ranges.push([at, at + term.length]);
+      at = folded.indexOf(term, at + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+};
+
+/** Recorta el texto alrededor de la primera coincidencia y corre los rangos al recorte */
+export const snippetOf = (text: string, ranges: Array<[number, number]>): SearchSnippet => {
+  if (text.length <= SNIPPET_LENGTH) return { text, highlights: ranges };
+  const first = ranges[0]?.[0] ?? 0;
+  const end = Math.min(text.length, Math.max(0, first - SNIPPET_LEAD) + SNIPPET_LENGTH);
+  const start = Math.max(0, end - SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const highlights = ranges
+    .filter(([s, e]) => e > start && s < end)
+    .map(([s, e]): [number, number] => [Math.max(s, start) - start + prefix.length, Math.min(e, end) - start + prefix.length]);
+  return { text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`, highlights };
+};
+
+export type SearchParams = {
+  q: string;
+  rooms?: ReadonlySet<string> | undefined; // sin rooms: todas las salas
+  author?: string | undefined;
+  since?: number | undefined;
+  until?: number | undefined;
+  before?: string | undefined;
+  limit: number;
+};
+
+/**
+ * Búsqueda de texto completo sobre el historial, del más reciente al más antiguo.
+ * undefined si la consulta no tiene ningún término.
+ */
+export const searchMessages = async (store: MessageStore, { q, limit, ...filters }: SearchParams) => {
+  const terms = parseTerms(q);
+  if (terms.length === 0) return undefined;
+  const page = await store.search({ ...filters, limit, matches: (m: ChatMessage) => matchRanges(m.text, terms) !== null });
+  const hits: SearchHit[] = page.messages.map((message) => ({
+    message,
+    snippet: snippetOf(message.text, matchRanges(message.text, terms) ?? []),
+  }));
+  return { hits, hasMore: page.hasMore };
+};
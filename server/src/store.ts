@@ -0,0 +1,364 @@
+import { randomUUID } from 'node:crypto';
+import { createWriteStream, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { ChatMessage, ReplyRef } from '../../shared/protocol';
+import type { RedisClient } from './presence';
+
+// Los mensajes se guardan tal cual viajan (ver shared/protocol)
+export type { ChatMessage, ReplyRef };
+
+/**
+ * Cambios sobre mensajes ya guardados. Se agregan al mismo archivo y se aplican al cargarlo.
+ */
+type MessageOp =
+  | { op: 'edit'; id: string; text: string; mentions?: string[]; at: number }
+  | { op: 'delete'; id: string; at: number }
+  | { op: 'react'; id: string; emoji: string; username: string; add: boolean; at: number };
+
+export type HistoryPage = { messages: ChatMessage[]; hasMore: boolean };
+
+/** Tramo del historial que puede no llegar al presente: `hasNewer` si hay mensajes después */
+export type HistoryWindow = HistoryPage & { hasNewer: boolean };
+
+export type Thread = { parent: ChatMessage; replies: ChatMessage[] };
+
+/** Filtros del historial: autor y rango de fechas (ms), paginando hacia atrás desde `before` */
+export type HistoryQuery = {
+  before?: string | undefined;
+  author?: string | undefined;
+  since?: number | undefined;
+  until?: number | undefined;
+  limit: number;
+};
+
+/** Búsqueda en varias salas a la vez (sin `rooms`: en todas); los borrados nunca coinciden */
+export type SearchFilter = {
+  rooms?: ReadonlySet<string> | undefined;
+  author?: string | undefined;
+  since?: number | undefined;
+  until?: number | undefined;
+  before?: string | undefined;
+  limit: number;
+  matches(msg: ChatMessage): boolean;
+};
+
+/**
+ * Almacenamiento de mensajes de las salas.
+ * Los ids los asigna el store al guardar.
+ */
+export interface MessageStore {
+  append(msg: Omit<ChatMessage, 'id'>): Promise<ChatMessage>;
+  /** Últimos `limit` mensajes de la sala, en orden cronológico */
+  recent(room: string, limit: number): Promise<ChatMessage[]>;
+  /** Página de mensajes anteriores a `before` (o los últimos si no se indica) */
+  before(room: string, before: string | undefined, limit: number): Promise<HistoryPage>;
+  /** Como `before`, pero solo con los mensajes que cumplen los filtros */
+  query(room: string, q: HistoryQuery): Promise<HistoryPage>;
+  /** Página de mensajes posteriores a `after` */
+  after(room: string, after: string, limit: number): Promise<HistoryWindow>;
+  /** Hasta `limit` mensajes alrededor de `id` (incluido); undefined si no es de la sala */
+  around(room: string, id: string, limit: number): Promise<HistoryWindow | undefined>;
+  /** Mensajes que cumplen el filtro, del más reciente al más antiguo, anteriores a `before` */
+  search(filter: SearchFilter): Promise<HistoryPage>;
+  /** Mensajes posteriores a `at` (como máximo los últimos `limit`) */
+  since(room: string, at: number, limit: number): Promise<ChatMessage[]>;
+  get(id: string): Promise<ChatMessage | undefined>;
+  /** Cambia el texto y las menciones; devuelve el mensaje actualizado (undefined si no existe o está borrado) */
+  edit(id: string, text: string, mentions?: string[], at?: number): Promise<ChatMessage | undefined>;
+  /** Reemplaza el mensaje por su lápida */
+  remove(id: string, at?: number): Promise<ChatMessage | undefined>;
+  /** Agrega o quita la reacción de un usuario; undefined si no cambió nada */
+  react(id: string, emoji: string, username: string, add: boolean, at?: number): Promise<ChatMessage | undefined>;
+  /** Un mensaje y todas sus respuestas directas, en orden cronológico */
+  thread(id: string): Promise<Thread | undefined>;
+  /** Mensajes anteriores a `at` que cambiaron después de `at` */
+  changedSince(room: string, at: number, limit: number): Promise<ChatMessage[]>;
+}
+
+// Cada línea del registro: un mensaje nuevo o un cambio sobre uno anterior
+type LogEntry = ChatMessage | MessageOp;
+
+/**
+ * Índice en memoria del historial. Los dos stores guardan un registro de entradas
+ * (mensajes y cambios) y arman este índice aplicándolas en orden.
+ */
+const createMessageIndex = () => {
+  const byRoom = new Map<string, ChatMessage[]>();
+  const byId = new Map<string, ChatMessage>();
+  // Todas las salas en orden de llegada (para buscar) y la posición de cada mensaje
+  const all: ChatMessage[] = [];
+  const position = new Map<string, number>();
+
+  const push = (msg: ChatMessage) => {
+    const list = byRoom.get(msg.room);
+    if (list) list.push(msg);
+    else byRoom.set(msg.room, [msg]);
+    byId.set(msg.id, msg);
+    position.set(msg.id, all.length);
+    all.push(msg);
+  };
+
+  const applyReaction = (msg: ChatMessage, emoji: string, username: string, add: boolean): boolean => {
+    const users = msg.reactions?.[emoji] ?? [];
+    if (users.includes(username) === add) return false;
+    const next = add ? [...users, username] : users.filter((u) => u !== username);
+    const reactions = { ...msg.reactions, [emoji]: next };
+    if (next.length === 0) delete reactions[emoji];
+    if (Object.keys(reactions).length > 0) msg.reactions = reactions;
+    else delete msg.reactions;
+    return true;
+  };
+
+  // Los mensajes se modifican en el lugar: las listas por sala y el índice comparten el objeto
+  const apply = (change: MessageOp): ChatMessage | undefined => {
+    const msg = byId.get(change.id);
+    if (!msg || msg.deleted) return undefined;
+    if (change.op === 'edit') {
+      msg.text = change.text;
+      msg.editedAt = change.at;
+      if (change.mentions?.length) msg.mentions = change.mentions;
+      else delete msg.mentions;
+    } else if (change.op === 'delete') {
+      msg.text = '';
+      msg.deleted = true;
+      msg.deletedAt = change.at;
+      delete msg.reactions;
+      delete msg.mentions;
+    } else if (!applyReaction(msg, change.emoji, change.username, change.add)) {
+      return undefined;
+    }
+    msg.updatedAt = change.at;
+    return msg;
+  };
+
+  // Devuelve el mensaje nuevo o el modificado (undefined si el cambio no aplicó)
+  const add = (entry: LogEntry): ChatMessage | undefined => {
+    if ('op' in entry) return apply(entry);
+    push(entry);
+    return entry;
+  };
+
+  return {
+    add,
+
+    recent(room: string, limit: number) {
+      return (byRoom.get(room) ?? []).slice(-limit);
+    },
+
+    before(room: string, before: string | undefined, limit: number): HistoryPage {
+      const list = byRoom.get(room) ?? [];
+      let end = list.length;
+      if (before) {
+        const idx = list.findIndex((m) => m.id === before);
+        end = idx === -1 ? 0 : idx;
+      }
+      const start = Math.max(0, end - limit);
+      return { messages: list.slice(start, end), hasMore: start > 0 };
+    },
+
+    query(room: string, { before, author, since, until, limit }: HistoryQuery): HistoryPage {
+      const list = byRoom.get(room) ?? [];
+      let end = list.length;
+      if (before) {
+        const idx = list.findIndex((m) => m.id === before);
+        end = idx === -1 ? 0 : idx;
+      }
+      const matches = (m: ChatMessage) =>
+        (author === undefined || m.username === author) &&
+        (since === undefined || m.at >= since) &&
+        (until === undefined || m.at <= until);
+      // De atrás hacia adelante, uno de más para saber si hay otra página
+      const found: ChatMessage[] = [];
+      for (let i = end - 1; i >= 0 && found.length <= limit; i--) {
+        const msg = list[i];
+        if (!msg) continue;
+        if (since !== undefined && msg.at < since) break;
+        if (matches(msg)) found.push(msg);
+      }
+      const hasMore = found.length > limit;
+      return { messages: found.slice(0, limit).reverse(), hasMore };
+    },
+
+    after(room: string, after: string, limit: number): HistoryWindow {
+      const list = byRoom.get(room) ?? [];
+      const idx = list.findIndex((m) => m.id === after);
+      const start = idx === -1 ? list.length : idx + 1;
+      const end = Math.min(list.length, start + limit);
+      return { messages: list.slice(start, end), hasMore: start > 0, hasNewer: end < list.length };
+    },
+
+    around(room: string, id: string, limit: number): HistoryWindow | undefined {
+      const list = byRoom.get(room) ?? [];
+      const idx = list.findIndex((m) => m.id === id);
+      if (idx === -1) return undefined;
+      const end = Math.min(list.length, Math.max(0, idx - Math.floor(limit / 2)) + limit);
+      const start = Math.max(0, end - limit);
+      return { messages: list.slice(start, end), hasMore: start > 0, hasNewer: end < list.length };
+    },
+
+    search({ rooms, author, since, until, before, limit, matches }: SearchFilter): HistoryPage {
+      const end = before ? (position.get(before) ?? 0) : all.length;
+      const found: ChatMessage[] = [];
+      for (let i = end - 1; i >= 0 && found.length <= limit; i--) {
+        const msg = all[i];
+        if (!msg) continue;
+        if (since !== undefined && msg.at < since) break;
+        if (msg.deleted || (rooms && !rooms.has(msg.room))) continue;
+        if ((author !== undefined && msg.username !== author) || (until !== undefined && msg.at > until)) continue;
+        if (matches(msg)) found.push(msg);
+      }
+      return { messages: found.slice(0, limit), hasMore: found.length > limit };
+    },
+
+    since(room: string, at: number, limit: number) {
+      const list = byRoom.get(room) ?? [];
+      let start = list.length;
+      while (start > 0 && (list[start - 1]?.at ?? 0) > at) start--;
+      return list.slice(Math.max(start, list.length - limit));
+    },
+
+    get: (id: string) => byId.get(id),
+
+    thread(id: string): Thread | undefined {
+      const parent = byId.get(id);
+      if (!parent) return undefined;
+      const replies = (byRoom.get(parent.room) ?? []).filter((m) => m.replyTo?.id === id);
+      return { parent, replies };
+    },
+
+    changedSince(room: string, at: number, limit: number) {
+      const changed = (byRoom.get(room) ?? []).filter((m) => m.at <= at && (m.updatedAt ?? 0) > at);
+      return changed.slice(-limit);
+    },
+  };
+};
+
+type MessageIndex = ReturnType<typeof createMessageIndex>;
+
+/**
+ * Arma el store sobre el índice: `write` guarda una entrada en el registro y devuelve el resultado
+ * de aplicarla; `ready` se espera antes de cada lectura (para ponerse al día con el registro)
+ */
+const storeOver = (
+  index: MessageIndex,
+  write: (entry: LogEntry) => Promise<ChatMessage | undefined>,
+  ready: () => Promise<void>
+): MessageStore => ({
+  async append(input) {
+    const msg = await write({ id: randomUUID(), ...input });
+    if (!msg) throw new Error('El mensaje nuevo no quedó en el historial');
+    return msg;
+  },
+
+  edit: (id, text, mentions = [], at = Date.now()) =>
+    write({ op: 'edit', id, text, ...(mentions.length > 0 ? { mentions } : {}), at }),
+
+  remove: (id, at = Date.now()) => write({ op: 'delete', id, at }),
+
+  react: (id, emoji, username, add, at = Date.now()) => write({ op: 'react', id, emoji, username, add, at }),
+
+  recent: async (room, limit) => (await ready(), index.recent(room, limit)),
+  before: async (room, before, limit) => (await ready(), index.before(room, before, limit)),
+  query: async (room, q) => (await ready(), index.query(room, q)),
+  after: async (room, after, limit) => (await ready(), index.after(room, after, limit)),
+  around: async (room, id, limit) => (await ready(), index.around(room, id, limit)),
+  search: async (filter) => (await ready(), index.search(filter)),
+  since: async (room, at, limit) => (await ready(), index.since(room, at, limit)),
+  get: async (id) => (await ready(), index.get(id)),
+  thread: async (id) => (await ready(), index.thread(id)),
+  changedSince: async (room, at, limit) => (await ready(), index.changedSince(room, at, limit)),
+});
+
+/**
+ * Store en memoria respaldado por un archivo JSON Lines (un mensaje o cambio por línea).
+ * Al iniciar se carga el archivo completo; cada entrada nueva se agrega al final.
+ * Es de una sola instancia: dos procesos sobre el mismo archivo no se ven entre sí.
+ */
+export const createFileMessageStore = (file: string): MessageStore => {
+  const index = createMessageIndex();
+
+  mkdirSync(dirname(file), { recursive: true });
+  if (existsSync(file)) {
+    const lines = readFileSync(file, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        index.add(JSON.parse(line) as LogEntry);
+      } catch {
+        console.warn(`[store] línea inválida ignorada en ${file}`);
+      }
+    }
+  }
+
+  const out = createWriteStream(file, { flags: 'a' });
+  out.on('error', (err) => console.error('[store] error escribiendo historial', err));
+
+  const write = async (entry: LogEntry) => {
+    const msg = index.add(entry);
+    // Los cambios que no aplicaron no se guardan
+    if (msg) out.write(JSON.stringify(entry) + '\n');
+    return msg;
+  };
+
+  return storeOver(index, write, async () => {});
+};
+
+/**
+ * Historial compartido entre instancias: el registro es un stream de Redis (`<prefix>messages`,
+ * una entrada por mensaje o cambio) y cada instancia lo aplica en el mismo orden sobre su índice.
+ * Antes de cada lectura o escritura se trae lo que agregaron las demás, así un mensaje
+ * publicado en otra instancia ya se puede editar, responder o buscar en esta.
+ */
+const SYNC_BATCH = 1000;
+
+type StreamEntry = { id: string; message: Record<string, string> };
+
+export const createRedisMessageStore = (client: RedisClient, prefix = 'chat:'): MessageStore => {
+  const index = createMessageIndex();
+  const logKey = `${prefix}messages`;
+  let lastId: string | null = null; // última entrada aplicada
+  let syncing: Promise<void> = Promise.resolve();
+  // Escrituras de esta instancia esperando el resultado de aplicarse (por `ref`)
+  const waiting = new Map<string, (msg: ChatMessage | undefined) => void>();
+
+  const pull = async () => {
+    for (;;) {
+      const entries = (await client.xRange(logKey, lastId ? `(${lastId}` : '-', '+', {
+        COUNT: SYNC_BATCH,
+      })) as unknown as StreamEntry[];
+      for (const { id, message } of entries) {
+        lastId = id;
+        let msg: ChatMessage | undefined;
+        try {
+          msg = index.add(JSON.parse(message.entry ?? '') as LogEntry);
+        } catch {
+          console.warn(`[store] entrada inválida ignorada en ${logKey} (${id})`);
+        }
+        const ref = message.ref;
+        if (ref) waiting.get(ref)?.(msg);
+      }
+      if (entries.length < SYNC_BATCH) return;
+    }
+  };
+
+  // De a una: las entradas se aplican una sola vez y en orden
+  const sync = () => {
+    syncing = syncing.catch(() => {}).then(pull);
+    return syncing;
+  };
+
+  const write = async (entry: LogEntry) => {
+    const ref = randomUUID();
+    const applied = new Promise<ChatMessage | undefined>((resolve) => waiting.set(ref, resolve));
+    try {
+      await client.xAdd(logKey, '*', { entry: JSON.stringify(entry), ref });
+      // El resultado es el de aplicarla en el orden del registro (igual en todas las instancias)
+      await sync();
+      return await applied;
+    } finally {
+      waiting.delete(ref);
+    }
+  };
+
+  return storeOver(index, write, sync);
+};
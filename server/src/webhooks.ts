@@ -0,0 +1,202 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { NAME_PATTERN, type ChatMessage } from '../../shared/protocol';
+
+/**
+ * Webhooks entrantes: cada uno tiene una URL secreta (POST /hooks/<token>) y publica
+ * en una sala con el nombre de su bot.
+ */
+export type IncomingWebhook = { id: string; token: string; room: string; bot: string };
+
+/**
+ * Webhooks salientes: cada chat:public que coincide se envía por POST a `url`, firmado con `secret`.
+ * `rooms` y `match` (expresión regular sobre el texto) filtran; si hay `bot` y la respuesta
+ * trae { text }, se publica como respuesta del bot en la misma sala.
+ */
+export type OutgoingWebhook = {
+  id: string;
+  url: string;
+  secret: string;
+  rooms?: string[];
+  match?: RegExp;
+  bot?: string;
+};
+
+export type WebhookConfig = { incoming: IncomingWebhook[]; outgoing: OutgoingWebhook[] };
+
+export type OutgoingPayload = { event: 'chat:public'; hook: string; delivery: string; message: ChatMessage };
+
+const SECRET_MIN_LENGTH = 16;
+const SIGNATURE_HEADER = 'X-Chat-Signature';
+const TIMESTAMP_HEADER = 'X-Chat-Timestamp';
+
+/**
+ * Firma de un envío: HMAC-SHA256 de "<timestamp>.<body>" en hex.
+ * Incluir la hora permite al receptor descartar envíos viejos repetidos.
+ */
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/** Busca el webhook entrante de un token sin cortar en el primer carácter distinto */
+export const findIncoming = (hooks: IncomingWebhook[], token: string) => {
+  const actual = Buffer.from(token);
+  return hooks.find((h) => {
+    const expected = Buffer.from(h.token);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  });
+};
+
+/**
+ * Valida la sección "webhooks" del archivo de configuración; los errores van a `problems`
+ */
+export const parseWebhookConfig = (raw: unknown, problems: string[]): WebhookConfig => {
+  const config: WebhookConfig = { incoming: [], outgoing: [] };
+  if (raw === undefined) return config;
+  if (typeof raw !== 'object' || raw === null) {
+    problems.push('config: webhooks: se esperaba un objeto { incoming, outgoing }');
+    return config;
+  }
+  const { incoming = [], outgoing = [] } = raw as { incoming?: unknown; outgoing?: unknown };
+  const ids = new Set<string>();
+
+  const entries = (list: unknown, kind: string): Record<string, unknown>[] => {
+    if (!Array.isArray(list) || list.some((h) => typeof h !== 'object' || h === null)) {
+      problems.push(`config: webhooks.${kind}: se esperaba una lista de objetos`);
+      return [];
+    }
+    return list as Record<string, unknown>[];
+  };
+
+  const check = (ok: boolean, where: string, message: string) => {
+    if (!ok) problems.push(`config: ${where}: ${message}`);
+    return ok;
+  };
+
+  entries(incoming, 'incoming').forEach((h, i) => {
+    const where = `webhooks.incoming[${i}]`;
+    const { id, token, room, bot } = h;
+    const valid = [
+      check(typeof id === 'string' && NAME_PATTERN.test(id) && !ids.has(id), `${where}.id`, 'falta o está repetido'),
+      check(typeof token === 'string' && token.length >= SECRET_MIN_LENGTH, `${where}.token`, `mínimo ${SECRET_MIN_LENGTH} caracteres`),
+      check(typeof room === 'string' && NAME_PATTERN.test(room), `${where}.room`, 'sala inválida'),
+      check(typeof bot === 'string' && NAME_PATTERN.test(bot), `${where}.bot`, 'nombre de bot inválido'),
+    ].every(Boolean);
+    if (typeof id === 'string') ids.add(id);
+    if (valid) config.incoming.push({ id: id as string, token: token as string, room: room as string, bot: bot as string });
+  });
+  if (new Set(config.incoming.map((h) => h.token)).size !== config.incoming.length) {
+    problems.push('config: webhooks.incoming: hay tokens repetidos');
+  }
+
+  entries(outgoing, 'outgoing').forEach((h, i) => {
+    const where = `webhooks.outgoing[${i}]`;
+    const { id, url, secret, rooms, match, bot } = h;
+    let isHttp = false;
+    try {
+      isHttp = typeof url === 'string' && ['http:', 'https:'].includes(new URL(url).protocol);
+    } catch {
+      // no es una URL
+    }
+    let pattern: RegExp | undefined;
+    try {
+      pattern = typeof match === 'string' ? new RegExp(match) : undefined;
+    } catch {
+      // se informa abajo
+    }
+    const valid = [
+      check(typeof id === 'string' && NAME_PATTERN.test(id) && !ids.has(id), `${where}.id`, 'falta o está repetido'),
+      check(isHttp, `${where}.url`, 'se esperaba una URL http(s)'),
+      check(typeof secret === 'string' && secret.length >= SECRET_MIN_LENGTH, `${where}.secret`, `mínimo ${SECRET_MIN_LENGTH} caracteres`),
+      check(
+        rooms === undefined || (Array.isArray(rooms) && rooms.every((r) => typeof r === 'string' && NAME_PATTERN.test(r))),
+        `${where}.rooms`,
+        'se esperaba una lista de salas'
+      ),
+      check(match === undefined || pattern !== undefined, `${where}.match`, 'expresión regular inválida'),
+      check(bot === undefined || (typeof bot === 'string' && NAME_PATTERN.test(bot)), `${where}.bot`, 'nombre de bot inválido'),
+    ].every(Boolean);
+    if (typeof id === 'string') ids.add(id);
+    if (!valid) return;
+    config.outgoing.push({
+      id: id as string,
+      url: url as string,
+      secret: secret as string,
+      ...(rooms !== undefined ? { rooms: rooms as string[] } : {}),
+      ...(pattern ? { match: pattern } : {}),
+      ...(bot !== undefined ? { bot: bot as string } : {}),
+    });
+  });
+
+  return config;
+};
+
+export type DispatchOptions = {
+  timeoutMs: number;
+  retries: number; // reintentos además del primer envío
+  backoffMs: number; // se duplica en cada reintento
+  /** El bot del webhook respondió con { text } */
+  onReply(hook: OutgoingWebhook & { bot: string }, room: string, text: string): void;
+};
+
+export const DEFAULT_DISPATCH: Omit<DispatchOptions, 'onReply'> = { timeoutMs: 5000, retries: 3, backoffMs: 1000 };
+
+const matches = (hook: OutgoingWebhook, msg: ChatMessage) =>
+  (!hook.rooms || hook.rooms.includes(msg.room)) && (!hook.match || hook.match.test(msg.text));
+
+// Errores de red, timeouts, 429 y 5xx se reintentan; el resto de los 4xx no
+const retryable = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Envía los mensajes a los webhooks salientes en segundo plano: nunca demora ni rompe al que publica.
+ * Los mensajes de bots no se envían (evita bucles entre bots).
+ */
+export const createWebhookDispatcher = (hooks: OutgoingWebhook[], options: DispatchOptions) => {
+  const deliver = async (hook: OutgoingWebhook, msg: ChatMessage) => {
+    const delivery = randomUUID(); // igual en todos los reintentos: el receptor puede deduplicar
+    const payload: OutgoingPayload = { event: 'chat:public', hook: hook.id, delivery, message: msg };
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 0; attempt <= options.retries; attempt++) {
+      if (attempt > 0) await new Promise((r) => setTimeout(r, options.backoffMs * 2 ** (attempt - 1)));
+      const timestamp = Date.now();
+      let problem: string;
+      try {
+        const res = await fetch(hook.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            [SIGNATURE_HEADER]: signPayload(hook.secret, timestamp, body),
+            [TIMESTAMP_HEADER]: String(timestamp),
+            'X-Chat-Delivery': delivery,
+          },
+          body,
+          signal: AbortSignal.timeout(options.timeoutMs),
+        });
+        if (res.ok) {
+          const reply = (await res.json().catch(() => null)) as { text?: unknown } | null;
+          if (hook.bot && typeof reply?.text === 'string' && reply.text.trim()) {
+            options.onReply({ ...hook, bot: hook.bot }, msg.room, reply.text);
+          }
+          return;
+        }
+        problem = `HTTP ${res.status}`;
+        if (!retryable(res.status)) {
+          console.error(`[webhook] ${hook.id}: el receptor rechazó el mensaje ${msg.id} (${problem})`);
+          return;
+        }
+      } catch (err) {
+        problem = err instanceof Error ? (err.name === 'TimeoutError' ? 'timeout' : err.message) : String(err);
+      }
+      console.warn(`[webhook] ${hook.id}: intento ${attempt + 1} falló (${problem})`);
+    }
+    console.error(`[webhook] ${hook.id}: no se pudo entregar el mensaje ${msg.id}`);
+  };
+
+  return {
+    dispatch(msg: ChatMessage) {
+      if (msg.bot) return;
+      for (const hook of hooks) {
+        if (matches(hook, msg)) void deliver(hook, msg);
+      }
+    },
+  };
+};
@@ -0,0 +1,215 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { io, type Socket } from 'socket.io-client';
+import {
+  PROTOCOL_VERSION,
+  type ChatAck,
+  type ChatMessage,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type WelcomePayload,
+} from '../../shared/protocol';
+import { createRedisClient } from '../src/presence';
+
+/**
+ * Dos instancias del servidor (cada una con su DATA_DIR, los adjuntos en un UPLOADS_DIR común)
+ * contra un mismo Redis: lo que pasa en una tiene que verse en la otra. Necesita un Redis
+ * local en REDIS_URL; se corre desde server/ (npm test). Las claves van con un prefijo propio y se borran al terminar.
+ */
+const REDIS_URL = process.env.REDIS_URL;
+const skip = REDIS_URL ? false : 'hace falta un Redis local en REDIS_URL';
+
+type Client = Socket<ServerToClientEvents, ClientToServerEvents>;
+type Instance = { url: string; process: ChildProcess; dataDir: string };
+
+const startInstance = (port: number, prefix: string, uploadsDir: string): Promise<Instance> => {
+  const dataDir = mkdtempSync(join(tmpdir(), 'chat-cluster-'));
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: process.cwd(),
+    env: {
+      ...process.env,
+      PORT: String(port),
+      HOST: '127.0.0.1',
+      DATA_DIR: dataDir,
+      UPLOADS_DIR: uploadsDir,
+      REDIS_URL,
+      REDIS_PREFIX: prefix,
+      ADMIN_USERS: 'jefa',
+      AUTH_SECRET: '',
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`la instancia ${port} no arrancó:\n${output}`)), 15_000);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (!output.includes('Server running')) return;
+      clearTimeout(timer);
+      resolve({ url: `http://127.0.0.1:${port}`, process: child, dataDir });
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.once('exit', (code) => {
+      clearTimeout(timer);
+      reject(new Error(`la instancia ${port} terminó (${code}):\n${output}`));
+    });
+  });
+};
+
+const stopInstance = async ({ process: child, dataDir }: Instance) => {
+  if (child.exitCode === null) {
+    const exited = new Promise((resolve) => child.once('exit', resolve));
+    child.kill('SIGTERM');
+    await exited;
+  }
+  rmSync(dataDir, { recursive: true, force: true });
+};
+
+// Espera un evento (con tiempo límite); `match` filtra los que no interesan
+const next = <T>(socket: Client, event: string, match: (payload: T) => boolean = () => true, ms = 5000) =>
+  new Promise<T>((resolve, reject) => {
+    const listener = (payload: T) => {
+      if (!match(payload)) return;
+      clearTimeout(timer);
+      (socket as unknown as Socket).off(event, listener);
+      resolve(payload);
+    };
+    const timer = setTimeout(() => {
+      (socket as unknown as Socket).off(event, listener);
+      reject(new Error(`no llegó ${event}`));
+    }, ms);
+    (socket as unknown as Socket).on(event, listener);
+  });
+
+const clients: Client[] = [];
+
+// Conecta y hace el hello; rechaza con el código si el servidor lo rechaza
+const connect = (url: string, username: string, token?: string) =>
+  new Promise<{ socket: Client; welcome: WelcomePayload }>((resolve, reject) => {
+    const socket: Client = io(url, { transports: ['websocket'], reconnection: false, ...(token ? { auth: { token } } : {}) });
+    clients.push(socket);
+    socket.on('connect', () => socket.emit('hello', { username, protocol: PROTOCOL_VERSION }));
+    socket.once('welcome', (welcome) => resolve({ socket, welcome }));
+    socket.once('server:error', (err) => reject(new Error(err.code)));
+    socket.once('connect_error', (err) => reject(err));
+  });
+
+const send = (socket: Client, payload: { text: string; room?: string; replyTo?: string }) =>
+  new Promise<ChatAck>((resolve) => socket.emit('chat:public', { room: 'global', ...payload }, resolve));
+
+const command = (socket: Client, input: string) => socket.emit('command:run', { input, room: 'global' });
+
+const post = async (url: string, body: unknown) => {
+  const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  return { status: res.status, body: (await res.json()) as { token?: string } };
+};
+
+test('dos instancias comparten historial, cuentas, moderación y adjuntos', { skip, timeout: 60_000 }, async () => {
+  const prefix = `chat-test-${randomBytes(4).toString('hex')}:`;
+  const redis = createRedisClient(REDIS_URL ?? '');
+  await redis.connect();
+  const port = 20_000 + Math.floor(Math.random() * 20_000);
+  const uploadsDir = mkdtempSync(join(tmpdir(), 'chat-uploads-'));
+  const a = await startInstance(port, prefix, uploadsDir);
+  const b = await startInstance(port + 1, prefix, uploadsDir).catch(async (err: unknown) => {
+    await stopInstance(a);
+    throw err;
+  });
+
+  try {
+    // Cuentas: registrada en A, entra por B (con la contraseña y con el token de A)
+    const registered = await post(`${a.url}/auth/register`, { username: 'ana', password: 'password123' });
+    assert.equal(registered.status, 201);
+    const login = await post(`${b.url}/auth/login`, { username: 'ana', password: 'password123' });
+    assert.equal(login.status, 200);
+    const ana = await connect(b.url, 'ana', registered.body.token);
+
+    // Los nombres de invitado son únicos entre instancias
+    const beto = await connect(a.url, 'beto');
+    await assert.rejects(connect(b.url, 'beto'), /USERNAME_TAKEN/);
+
+    // Un mensaje publicado en A se puede reaccionar, responder, paginar y buscar desde B
+    const seen = next<ChatMessage>(ana.socket, 'chat:public', (m) => m.username === 'beto');
+    const sent = await send(beto.socket, { text: 'hola desde la instancia A' });
+    assert.ok(sent.ok);
+    const original = await seen;
+
+    const reacted = next<{ id: string; reactions: Record<string, string[]> }>(beto.socket, 'reaction:update');
+    ana.socket.emit('reaction:add', { id: original.id, emoji: '👍' });
+    assert.deepEqual((await reacted).reactions, { '👍': ['ana'] });
+
+    const reply = await send(ana.socket, { text: 'respuesta desde B', replyTo: original.id });
+    assert.ok(reply.ok);
+
+    const page = next<{ messages: ChatMessage[] }>(ana.socket, 'history:page');
+    ana.socket.emit('history:fetch', { room: 'global' });
+    assert.deepEqual(
+      (await page).messages.map((m) => m.text),
+      ['hola desde la instancia A', 'respuesta desde B']
+    );
+
+    const results = next<{ hits: Array<{ message: ChatMessage }> }>(ana.socket, 'search:results');
+    ana.socket.emit('search:query', { q: 'instancia' });
+    assert.deepEqual(
+      (await results).hits.map((h) => h.message.id),
+      [original.id]
+    );
+
+    // Adjunto subido en B con el resumeToken de la sesión que está en A, descargado desde A
+    const upload = await fetch(`${b.url}/uploads`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain', 'X-Filename': 'nota.txt', Authorization: `Bearer ${beto.welcome.resumeToken}` },
+      body: 'contenido compartido',
+    });
+    assert.equal(upload.status, 201);
+    const { id } = (await upload.json()) as { id: string };
+    const download = await fetch(`${a.url}/uploads/${id}`);
+    assert.equal(download.status, 200);
+    assert.equal(await download.text(), 'contenido compartido');
+
+    // Moderación: silencio y ban aplicados en A valen para quien está en B
+    const jefaAccount = await post(`${a.url}/auth/register`, { username: 'jefa', password: 'password123' });
+    const jefa = await connect(a.url, 'jefa', jefaAccount.body.token);
+    const carla = await connect(b.url, 'carla');
+
+    const muted = next(jefa.socket, 'mod:action');
+    command(jefa.socket, '/mute carla 10m');
+    await muted;
+    const silenced = await send(carla.socket, { text: 'no debería salir' });
+    assert.equal(silenced.ok ? 'ok' : silenced.code, 'MUTED');
+
+    const banned = next<{ code: string }>(carla.socket, 'server:error', (e) => e.code === 'BANNED');
+    await new Promise((r) => setTimeout(r, 500)); // límite de comandos
+    command(jefa.socket, '/ban carla 1h');
+    await banned;
+    await assert.rejects(connect(b.url, 'carla'), /BANNED/);
+
+    // Dispositivos: la cuenta entra desde A aunque su sesión esté en B, y se va cuando se van todos
+    const listed = next<{ sessions: unknown[] }>(ana.socket, 'sessions:list', (s) => s.sessions.length === 2);
+    const second = await connect(a.url, 'ana', registered.body.token);
+    await listed;
+
+    const gone: string[] = [];
+    jefa.socket.on('user_left', ({ username }) => gone.push(username));
+    const shrunk = next<{ sessions: unknown[] }>(second.socket, 'sessions:list', (s) => s.sessions.length === 1);
+    ana.socket.disconnect();
+    await shrunk;
+    assert.deepEqual(gone, []);
+
+    const left = next<{ username: string }>(jefa.socket, 'user_left', (e) => e.username === 'ana');
+    second.socket.disconnect();
+    await left;
+  } finally {
+    for (const socket of clients) socket.disconnect();
+    await Promise.all([stopInstance(a), stopInstance(b)]);
+    rmSync(uploadsDir, { recursive: true, force: true });
+    for await (const keys of redis.scanIterator({ MATCH: `${prefix}*` })) if (keys.length > 0) await redis.del(keys);
+    await redis.quit();
+  }
+});
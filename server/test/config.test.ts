@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig } from '../src/config';
+import { DEFAULT_LIMITS } from '../src/ratelimit';
+
+/**
+ * RATE_LIMITS se valida con el resto de la configuración: cualquier error corta el arranque
+ * con la lista de "Configuración inválida" en lugar de romper después.
+ */
+const withRateLimits = (raw: string) => loadConfig({ RATE_LIMITS: raw });
+
+test('sin RATE_LIMITS usa los límites por defecto', () => {
+  assert.deepEqual(loadConfig({}).rateLimits, DEFAULT_LIMITS);
+});
+
+test('un scope de RATE_LIMITS reemplaza al de por defecto y deja los demás', () => {
+  const { rateLimits } = withRateLimits('{"chat:edit":{"user":{"capacity":4,"refillPerSec":0.5}},"upload":{"ip":{"capacity":0,"refillPerSec":0}}}');
+  assert.deepEqual(rateLimits['chat:edit'], { user: { capacity: 4, refillPerSec: 0.5 } });
+  assert.deepEqual(rateLimits.upload, { ...DEFAULT_LIMITS.upload, ip: { capacity: 0, refillPerSec: 0 } });
+  assert.deepEqual(rateLimits['chat:public'], DEFAULT_LIMITS['chat:public']);
+});
+
+test('RATE_LIMITS con JSON inválido es un error de configuración', () => {
+  assert.throws(() => withRateLimits('{chat'), /Configuración inválida:\n {2}- RATE_LIMITS: JSON inválido/);
+});
+
+test('RATE_LIMITS rechaza eventos, scopes y valores desconocidos', () => {
+  const problems = (raw: string) => {
+    try {
+      withRateLimits(raw);
+    } catch (err) {
+      return (err as Error).message;
+    }
+    assert.fail(`se aceptó ${raw}`);
+  };
+  assert.match(problems('[]'), /RATE_LIMITS: se esperaba un objeto/);
+  assert.match(problems('{"chat:shout":{}}'), /evento desconocido "chat:shout"/);
+  assert.match(problems('{"hello":{"room":{"capacity":1,"refillPerSec":1}}}'), /hello: scope desconocido "room"/);
+  assert.match(problems('{"chat:public":{"user":{"capacity":"lots","refillPerSec":1}}}'), /chat:public\.user: capacity y refillPerSec/);
+  assert.match(problems('{"api":{"ip":{"capacity":5,"refillPerSec":-1}}}'), /api\.ip: capacity y refillPerSec/);
+  assert.match(problems('{"api":{"ip":{"capacity":5}}}'), /api\.ip: capacity y refillPerSec/);
+});
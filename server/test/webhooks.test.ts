@@ -0,0 +1,166 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ChatMessage } from '../../shared/protocol';
+import { createWebhookDispatcher, signPayload, type OutgoingPayload, type OutgoingWebhook } from '../src/webhooks';
+
+/**
+ * Webhooks salientes contra un receptor HTTP local: `respond` decide qué contesta a cada intento
+ * (1, 2, …); si no termina la respuesta, el envío vence por timeout.
+ */
+type Received = { headers: IncomingHttpHeaders; body: string; at: number };
+
+const standIn = async (respond: (attempt: number, res: ServerResponse) => void) => {
+  const received: Received[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body, at: Date.now() });
+      respond(received.length, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+const reply = (res: ServerResponse, status: number, body: unknown = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const waitFor = async (ok: () => boolean, ms = 3000) => {
+  const until = Date.now() + ms;
+  while (!ok()) {
+    if (Date.now() > until) throw new Error('tiempo de espera agotado');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const message: ChatMessage = { id: 'm1', username: 'ana', text: '!deploy ya', at: 1_700_000_000_000, room: 'ops' };
+
+const hookFor = (url: string, extra: Partial<OutgoingWebhook> = {}): OutgoingWebhook => ({
+  id: 'ci',
+  url,
+  secret: 'un-secreto-bastante-largo',
+  ...extra,
+});
+
+type Reply = { hook: string; bot: string; room: string; text: string };
+
+const dispatcherFor = (hooks: OutgoingWebhook[], options: { timeoutMs?: number; retries?: number; backoffMs?: number } = {}) => {
+  const replies: Reply[] = [];
+  const dispatcher = createWebhookDispatcher(hooks, {
+    timeoutMs: 1000,
+    retries: 3,
+    backoffMs: 50,
+    ...options,
+    onReply: (hook, room, text) => replies.push({ hook: hook.id, bot: hook.bot, room, text }),
+  });
+  return { dispatcher, replies };
+};
+
+test('firma "<timestamp>.<body>" con HMAC-SHA256 y publica la respuesta del bot', async () => {
+  const receiver = await standIn((_, res) => reply(res, 200, { text: 'Desplegando…' }));
+  try {
+    const hook = hookFor(receiver.url, { bot: 'deployer' });
+    const { dispatcher, replies } = dispatcherFor([hook]);
+    dispatcher.dispatch(message);
+    await waitFor(() => replies.length > 0);
+
+    const [req] = receiver.received;
+    assert.ok(req);
+    const timestamp = Number(req.headers['x-chat-timestamp']);
+    assert.ok(Number.isFinite(timestamp));
+    assert.equal(req.headers['x-chat-signature'], signPayload(hook.secret, timestamp, req.body));
+    assert.notEqual(req.headers['x-chat-signature'], signPayload('otro-secreto-bastante-largo', timestamp, req.body));
+
+    const payload = JSON.parse(req.body) as OutgoingPayload;
+    assert.equal(payload.event, 'chat:public');
+    assert.equal(payload.hook, 'ci');
+    assert.equal(payload.delivery, req.headers['x-chat-delivery']);
+    assert.deepEqual(payload.message, message);
+
+    assert.deepEqual(replies, [{ hook: 'ci', bot: 'deployer', room: 'ops', text: 'Desplegando…' }]);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('reintenta 5xx y 429 con espera creciente y el mismo id de entrega', async () => {
+  const statuses = [503, 429, 200];
+  const receiver = await standIn((attempt, res) => reply(res, statuses[attempt - 1] ?? 200));
+  try {
+    const { dispatcher } = dispatcherFor([hookFor(receiver.url)], { backoffMs: 50 });
+    dispatcher.dispatch(message);
+    await waitFor(() => receiver.received.length === 3);
+    await sleep(200);
+    assert.equal(receiver.received.length, 3);
+
+    const [first, second, third] = receiver.received;
+    assert.ok(first && second && third);
+    assert.ok(second.at - first.at >= 45, `primera espera: ${second.at - first.at} ms`);
+    assert.ok(third.at - second.at >= 95, `segunda espera: ${third.at - second.at} ms`);
+    assert.equal(new Set(receiver.received.map((r) => r.headers['x-chat-delivery'])).size, 1);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('reintenta cuando el receptor no contesta a tiempo', async () => {
+  // El primer intento queda colgado hasta el timeout
+  const receiver = await standIn((attempt, res) => {
+    if (attempt > 1) reply(res, 200);
+  });
+  try {
+    const { dispatcher } = dispatcherFor([hookFor(receiver.url)], { timeoutMs: 100, backoffMs: 20 });
+    dispatcher.dispatch(message);
+    await waitFor(() => receiver.received.length === 2);
+    await sleep(200);
+    assert.equal(receiver.received.length, 2);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('abandona los demás 4xx sin reintentar', async () => {
+  const receiver = await standIn((_, res) => reply(res, 400));
+  try {
+    const { dispatcher, replies } = dispatcherFor([hookFor(receiver.url, { bot: 'deployer' })], { backoffMs: 20 });
+    dispatcher.dispatch(message);
+    await waitFor(() => receiver.received.length === 1);
+    await sleep(300);
+    assert.equal(receiver.received.length, 1);
+    assert.equal(replies.length, 0);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('no envía mensajes de bots ni los que no coinciden con el filtro', async () => {
+  const receiver = await standIn((_, res) => reply(res, 200));
+  try {
+    const { dispatcher } = dispatcherFor([hookFor(receiver.url, { rooms: ['ops'], match: /^!deploy/ })]);
+    dispatcher.dispatch({ ...message, bot: true });
+    dispatcher.dispatch({ ...message, room: 'general' });
+    dispatcher.dispatch({ ...message, text: 'hola' });
+    dispatcher.dispatch(message);
+    await waitFor(() => receiver.received.length === 1);
+    await sleep(200);
+    assert.equal(receiver.received.length, 1);
+  } finally {
+    await receiver.close();
+  }
+});
@@ -0,0 +1,107 @@
+/**
+ * Subconjunto de Markdown de los mensajes: **negrita**, *cursiva*, `código`, bloques ```lenguaje
+ * y URLs http(s) enlazadas solas. No hay HTML: todo lo demás se muestra como texto.
+ * Lo usan el servidor (límites de formato) y el cliente React (para mostrarlo), así cuentan igual.
+ */
+import { LIMITS, type PublicLimits } from './protocol';
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: Inline[] }
+  | { type: 'em'; children: Inline[] }
+  | { type: 'link'; href: string };
+
+export type Block = { type: 'paragraph'; children: Inline[] } | { type: 'code'; lang?: string; text: string };
+
+// ``` o ~~~ al principio de la línea, con el lenguaje opcional (solo un nombre simple)
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([\w+#.-]{1,20})?[ \t]*$/;
+
+/**
+ * Bloques del mensaje. Un bloque de código sin cerrar llega hasta el final del mensaje.
+ */
+export const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    // Las líneas vacías alrededor de un bloque de código no forman párrafo
+    const joined = paragraph.join('\n').replace(/^\n+|\n+$/g, '');
+    if (joined) blocks.push({ type: 'paragraph', children: parseInline(joined) });
+    paragraph = [];
+  };
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const open = FENCE.exec(lines[i] ?? '');
+    if (!open) {
+      paragraph.push(lines[i] ?? '');
+      continue;
+    }
+    flush();
+    const marker = open[1] ?? '```';
+    const code: string[] = [];
+    for (i++; i < lines.length; i++) {
+      const close = FENCE.exec(lines[i] ?? '');
+      if (close && !close[2] && close[1]?.[0] === marker[0] && (close[1]?.length ?? 0) >= marker.length) break;
+      code.push(lines[i] ?? '');
+    }
+    blocks.push({ type: 'code', text: code.join('\n'), ...(open[2] ? { lang: open[2].toLowerCase() } : {}) });
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * En orden de prioridad: escape, código, negrita, cursiva y URL.
+ * El "_" solo marca cursiva entre separadores (para no romper nombres_con_guiones).
+ */
+const INLINE = new RegExp(
+  [
+    /\\([\\`*_])/.source,
+    /(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/.source,
+    /\*\*(?=\S)((?:[^*]|\*(?!\*))*?\S)\*\*/.source,
+    /(?<!\w)__(?=\S)([\s\S]*?\S)__(?!\w)/.source,
+    /\*(?=[^\s*])((?:\*\*(?:[^*]|\*(?!\*))+?\*\*|[^*])*?[^\s*])\*/.source,
+    /(?<!\w)_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/.source,
+    /(https?:\/\/[^\s<>"]*[^\s<>".,:;!?')\]])/.source,
+  ].join('|'),
+  'g'
+);
+
+export const parseInline = (text: string): Inline[] => {
+  const out: Inline[] = [];
+  const pushText = (t: string) => {
+    if (!t) return;
+    const last = out[out.length - 1];
+    if (last?.type === 'text') last.text += t;
+    else out.push({ type: 'text', text: t });
+  };
+  let at = 0;
+  for (const m of text.matchAll(INLINE)) {
+    pushText(text.slice(at, m.index));
+    at = m.index + m[0].length;
+    const [, escaped, , code, strong, strongAlt, em, emAlt, url] = m;
+    if (escaped !== undefined) pushText(escaped);
+    else if (code !== undefined) out.push({ type: 'code', text: code });
+    else if (strong !== undefined || strongAlt !== undefined) {
+      out.push({ type: 'strong', children: parseInline(strong ?? strongAlt ?? '') });
+    } else if (em !== undefined || emAlt !== undefined) {
+      out.push({ type: 'em', children: parseInline(em ?? emAlt ?? '') });
+    } else if (url !== undefined) out.push({ type: 'link', href: url });
+  }
+  pushText(text.slice(at));
+  return out;
+};
+
+/**
+ * Por qué un texto no respeta los límites de formato (null si los respeta).
+ * El largo total lo controla `textMax` aparte.
+ */
+export const formatProblem = (text: string, limits: Pick<PublicLimits, 'linesMax'>): string | null => {
+  const lines = text.split('\n').length;
+  if (lines > limits.linesMax) return `El mensaje tiene demasiadas líneas (${lines}, máximo ${limits.linesMax}).`;
+  const codeBlocks = parseBlocks(text).filter((b) => b.type === 'code').length;
+  if (codeBlocks > LIMITS.codeBlocksPerMessage) {
+    return `El mensaje tiene demasiados bloques de código (${codeBlocks}, máximo ${LIMITS.codeBlocksPerMessage}).`;
+  }
+  return null;
+};
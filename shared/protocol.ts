@@ -0,0 +1,451 @@
+/**
+ * Protocolo entre clientes y servidor: tipos de cada evento, esquemas con validación en
+ * tiempo de ejecución para lo que mandan los clientes y la versión del protocolo.
+ * Lo importan el servidor y el cliente React (sin dependencias: solo TypeScript).
+ *
+ * Subir PROTOCOL_VERSION cuando un cambio deje de ser compatible con los clientes existentes.
+ */
+export const PROTOCOL_VERSION = 1;
+
+// Los clientes anteriores al versionado no mandan `protocol` en el hello: hablaban la versión 1
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+export const GLOBAL_ROOM = 'global';
+
+// Topes del protocolo: ningún servidor acepta más que esto, aunque su configuración lo pida
+export const LIMITS = {
+  usernameMax: 32,
+  passwordMax: 128,
+  textMax: 10_000,
+  linesMax: 1000,
+  codeBlocksPerMessage: 10,
+  devicesPerUser: 5,
+  attachmentsPerMessage: 5,
+  historyPageMax: 100,
+  searchPageMax: 50,
+  mentionsPerMessage: 20,
+} as const;
+
+/**
+ * Límites que cada servidor configura y publica a los clientes (GET /config y welcome)
+ */
+export type PublicLimits = {
+  usernameMin: number;
+  usernameMax: number;
+  passwordMin: number;
+  passwordMax: number;
+  textMax: number;
+  linesMax: number; // líneas por mensaje (los bloques de código cuentan todas)
+  attachmentsPerMessage: number;
+  uploadMaxBytes: number;
+};
+
+export const DEFAULT_PUBLIC_LIMITS: PublicLimits = {
+  usernameMin: 3,
+  usernameMax: 20,
+  passwordMin: 8,
+  passwordMax: LIMITS.passwordMax,
+  textMax: 2000,
+  linesMax: 100,
+  attachmentsPerMessage: LIMITS.attachmentsPerMessage,
+  uploadMaxBytes: 10 * 1024 * 1024,
+};
+
+export type PublicConfig = { protocol: number; limits: PublicLimits };
+
+// Usernames y nombres de sala: letras, números, guion y guion bajo
+export const NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// "@usuario" al principio o tras un espacio o puntuación (no en direcciones de correo)
+export const MENTION_PATTERN = /(^|[^\w@])@([a-zA-Z0-9_-]+)/g;
+
+/** Nombres mencionados en el texto, sin repetir; el servidor se queda con los de usuarios conectados */
+export const mentionedNames = (text: string) =>
+  Array.from(new Set(Array.from(text.matchAll(MENTION_PATTERN), (m) => m[2] ?? ''))).slice(0, LIMITS.mentionsPerMessage);
+
+/**
+ * Mensajes privados cifrados de extremo a extremo: cada dispositivo publica una clave pública
+ * ECDH P-256 (punto sin comprimir en base64) y el mensaje se cifra con AES-GCM una vez por
+ * cada dispositivo de los dos usuarios. El servidor solo reenvía los cifrados sin poder leerlos.
+ */
+export type Cipher = { device: string; iv: string; data: string };
+export type DeviceKey = { device: string; publicKey: string };
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Lo más largo que puede ser el cifrado de un texto de `textMax` caracteres (UTF-8 + JSON + etiqueta GCM)
+export const cipherMaxLength = (textMax: number) => Math.ceil((textMax * 3 + 64 + 16) / 3) * 4;
+
+export const isValidName = (
+  value: unknown,
+  limits: Pick<PublicLimits, 'usernameMin' | 'usernameMax'>
+): value is string => {
+  if (typeof value !== 'string') return false;
+  const name = value.trim();
+  return name.length >= limits.usernameMin && name.length <= limits.usernameMax && NAME_PATTERN.test(name);
+};
+
+/**
+ * Esquemas mínimos: cada uno valida un valor y devuelve una copia limpia
+ * (los objetos descartan las claves desconocidas) o el error a informar.
+ */
+export type PayloadError = { code: string; message: string };
+
+export type Result<T> = { ok: true; value: T } | { ok: false; error: PayloadError };
+
+export type Schema<T> = { parse(value: unknown, path: string): Result<T> };
+
+type OptionalSchema<T> = Schema<T | undefined> & { optional: true };
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Código y mensaje propios de un campo (si no, INVALID_PAYLOAD con un mensaje genérico)
+type ErrorOptions = { code?: string; message?: string };
+
+const INVALID = 'INVALID_PAYLOAD';
+
+const fail = (opts: ErrorOptions, path: string, reason: string): { ok: false; error: PayloadError } => ({
+  ok: false,
+  error: { code: opts.code ?? INVALID, message: opts.message ?? `${path || 'payload'}: ${reason}` },
+});
+
+export const str = (opts: ErrorOptions & { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> => ({
+  parse(value, path) {
+    if (typeof value !== 'string') return fail(opts, path, 'se esperaba un texto');
+    const length = value.trim().length;
+    if (opts.min !== undefined && length < opts.min) return fail(opts, path, `mínimo ${opts.min} caracteres`);
+    if (opts.max !== undefined && length > opts.max) return fail(opts, path, `máximo ${opts.max} caracteres`);
+    if (opts.pattern && !opts.pattern.test(value.trim())) return fail(opts, path, 'formato inválido');
+    return { ok: true, value };
+  },
+});
+
+export const num = (opts: ErrorOptions & { integer?: boolean; min?: number } = {}): Schema<number> => ({
+  parse(value, path) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(opts, path, 'se esperaba un número');
+    if (opts.integer && !Number.isInteger(value)) return fail(opts, path, 'se esperaba un entero');
+    if (opts.min !== undefined && value < opts.min) return fail(opts, path, `mínimo ${opts.min}`);
+    return { ok: true, value };
+  },
+});
+
+export const oneOf = <T extends string>(values: readonly T[], opts: ErrorOptions = {}): Schema<T> => ({
+  parse(value, path) {
+    return values.includes(value as T)
+      ? { ok: true, value: value as T }
+      : fail(opts, path, `se esperaba ${values.join(', ')}`);
+  },
+});
+
+export const arr = <T>(item: Schema<T>, opts: ErrorOptions & { max?: number } = {}): Schema<T[]> => ({
+  parse(value, path) {
+    if (!Array.isArray(value)) return fail(opts, path, 'se esperaba una lista');
+    if (opts.max !== undefined && value.length > opts.max) return fail(opts, path, `máximo ${opts.max} elementos`);
+    const out: T[] = [];
+    for (const [i, v] of value.entries()) {
+      const r = item.parse(v, `${path}[${i}]`);
+      if (!r.ok) return opts.code ? fail(opts, path, r.error.message) : r;
+      out.push(r.value);
+    }
+    return { ok: true, value: out };
+  },
+});
+
+/** Campo que puede faltar (o venir como null) */
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  optional: true,
+  parse(value, path) {
+    return value === undefined || value === null ? { ok: true, value: undefined } : schema.parse(value, path);
+  },
+});
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> }
+>;
+
+export const obj = <S extends Shape>(shape: S): Schema<InferShape<S>> => ({
+  parse(value, path) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail({}, path, 'se esperaba un objeto');
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const r = schema.parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+      if (!r.ok) return r;
+      if (r.value !== undefined) out[key] = r.value;
+    }
+    return { ok: true, value: out as InferShape<S> };
+  },
+});
+
+/** Eventos sin payload: se ignora lo que venga */
+export const none: Schema<undefined> = { parse: () => ({ ok: true, value: undefined }) };
+
+/**
+ * Tipos que viajan del servidor a los clientes
+ */
+export type Role = 'admin' | 'moderator' | 'user';
+export const USER_STATUSES = ['online', 'away', 'busy'] as const;
+export type UserStatus = (typeof USER_STATUSES)[number];
+export type UserInfo = { username: string; status: UserStatus; lastSeen: number };
+export type RoomInfo = { name: string; members: number };
+
+export type AttachmentInfo = { id: string; name: string; mime: string; size: number };
+
+// Mensaje citado en una respuesta (fragmento del texto original)
+export type ReplyRef = { id: string; username: string; text: string };
+
+export type ChatMessage = {
+  id: string;
+  username: string;
+  text: string;
+  at: number;
+  room: string;
+  // "/me <acción>": se muestra en tercera persona
+  action?: boolean;
+  // Publicado por un bot (webhook entrante o respuesta de uno saliente)
+  bot?: boolean;
+  // Usuarios mencionados con @ que estaban conectados al publicar (o editar)
+  mentions?: string[];
+  replyTo?: ReplyRef;
+  attachments?: AttachmentInfo[];
+  editedAt?: number;
+  // Lápida: el mensaje borrado conserva id, autor y hora pero pierde el texto
+  deleted?: boolean;
+  deletedAt?: number;
+  // emoji -> usuarios que reaccionaron
+  reactions?: Record<string, string[]>;
+  // Último cambio de cualquier tipo (edición, borrado o reacción)
+  updatedAt?: number;
+};
+
+// Con `clientId` cuando el autor lo mandó (para confirmar su bandeja de salida)
+export type ChatOutPayload = ChatMessage & { clientId?: string };
+
+// Con `ciphers` el texto viaja vacío (y `action` va dentro del cifrado); `device` es el que lo envió
+export type PrivateOutPayload = {
+  from: string;
+  to: string;
+  text: string;
+  at: number;
+  action?: boolean;
+  ciphers?: Cipher[];
+  device?: string;
+};
+
+// Claves de los dispositivos conectados de un usuario (vacío si ninguno publicó)
+export type KeyInfo = { username: string; keys: DeviceKey[] };
+
+/**
+ * Dispositivos (conexiones) de una misma cuenta. `id` identifica al dispositivo en
+ * sessions:revoke y en los cifrados; no sirve para reanudar (eso es el resumeToken).
+ */
+export type DeviceInfo = {
+  id: string;
+  agent: string; // user-agent del navegador o cliente
+  ip: string;
+  connectedAt: number;
+  online: boolean; // false durante el período de gracia tras un corte
+};
+
+export type WelcomePayload = {
+  username: string;
+  connectedUsers: string[];
+  room: string;
+  rooms: RoomInfo[];
+  joined: string[];
+  history: ChatMessage[];
+  resumeToken: string;
+  // Este dispositivo (ver DeviceInfo)
+  device: string;
+  // true si se reanudó una sesión tras un corte; `missed` trae lo que llegó mientras tanto
+  resumed: boolean;
+  missed?: ChatMessage[];
+  // Mensajes ya conocidos que se editaron o borraron durante el corte
+  updated?: ChatMessage[];
+  role: Role;
+  limits: PublicLimits;
+};
+
+/**
+ * Página de historial: anterior a `before` (o la última), posterior a `after` o alrededor de `around`.
+ * `hasMore`: hay mensajes más viejos; `hasNewer` (solo con after/around): la página no llega al presente.
+ */
+export type HistoryPage = {
+  room: string;
+  before?: string | undefined;
+  after?: string | undefined;
+  around?: string | undefined;
+  messages: ChatMessage[];
+  hasMore: boolean;
+  hasNewer?: boolean;
+};
+export type ThreadPage = { id: string; parent: ChatMessage; replies: ChatMessage[] };
+export type ReactionUpdate = { id: string; room: string; reactions: Record<string, string[]> };
+// Fragmento del mensaje con las coincidencias marcadas: rangos [inicio, fin) sobre `text`
+export type SearchSnippet = { text: string; highlights: Array<[number, number]> };
+export type SearchHit = { message: ChatMessage; snippet: SearchSnippet };
+// Resultados del más reciente al más antiguo; la página siguiente se pide con before = id del último
+export type SearchResults = { q: string; before?: string | undefined; hits: SearchHit[]; hasMore: boolean };
+export type TypingEvent = { username: string; room?: string; to?: string };
+// Salida de un comando (/help, /whois…): solo la ve quien lo ejecutó
+export type SystemMessage = { text: string; at: number };
+
+// Acción de moderación anunciada a todos; `until` null = sin vencimiento
+export type ModAction = {
+  action: 'kick' | 'ban' | 'unban' | 'mute' | 'unmute';
+  target: string;
+  by: string;
+  until?: number | null;
+  at: number;
+};
+
+export type ServerError = { code: string; message: string; retryAfterMs?: number };
+export type ChatAck = { ok: true; id: string; at: number } | ({ ok: false } & ServerError);
+
+/**
+ * API REST de solo lectura (GET /api/...). Los errores llegan como ApiError.
+ */
+export type ApiUser = UserInfo & { role: Role; rooms: string[] };
+export type ApiRoom = RoomInfo & { users: string[] };
+export type ServerInfo = {
+  version: string;
+  protocol: number;
+  startedAt: number;
+  uptimeMs: number;
+  connections: number; // sockets abiertos (incluye los que no completaron hello)
+  users: number; // usuarios conectados
+  rooms: number;
+};
+export type ApiError = { error: { code: string; message: string } };
+
+export type ServerToClientEvents = {
+  welcome: (p: WelcomePayload) => void;
+  'chat:public': (p: ChatOutPayload) => void;
+  'chat:private': (p: PrivateOutPayload) => void;
+  'chat:updated': (p: ChatMessage) => void;
+  'reaction:update': (p: ReactionUpdate) => void;
+  'users:list': (p: { room: string; users: UserInfo[] }) => void;
+  'rooms:list': (p: { rooms: RoomInfo[] }) => void;
+  'room:joined': (p: { room: string; users: UserInfo[]; history: ChatMessage[] }) => void;
+  'history:page': (p: HistoryPage) => void;
+  'thread:page': (p: ThreadPage) => void;
+  'search:results': (p: SearchResults) => void;
+  'room:left': (p: { room: string }) => void;
+  user_joined: (p: { username: string; room: string }) => void;
+  user_left: (p: { username: string; room: string }) => void;
+  user_renamed: (p: { from: string; to: string }) => void;
+  'system:message': (p: SystemMessage) => void;
+  'server:error': (p: ServerError) => void;
+  'mod:action': (p: ModAction) => void;
+  'typing:start': (p: TypingEvent) => void;
+  'typing:stop': (p: TypingEvent) => void;
+  presence: (p: UserInfo) => void;
+  // Cambiaron las claves de un usuario (entró o se fue un dispositivo, o uno publicó otra)
+  'keys:changed': (p: KeyInfo) => void;
+  // Los dispositivos propios; llega a todos cada vez que cambian
+  'sessions:list': (p: { sessions: DeviceInfo[] }) => void;
+};
+
+/**
+ * Lo que mandan los clientes: el servidor valida cada evento contra su esquema antes de
+ * pasarlo al handler. Los campos con reglas conocidas conservan sus códigos de error.
+ */
+// Los handlers vuelven a validar contra los límites configurados (más estrictos que los topes)
+const username = str({ min: 1, max: LIMITS.usernameMax, pattern: NAME_PATTERN, code: 'INVALID_USERNAME', message: 'Username inválido' });
+const text = str({ max: LIMITS.textMax, code: 'INVALID_MESSAGE', message: 'Mensaje vacío o demasiado largo.' });
+const room = str({ max: 64, code: 'INVALID_ROOM', message: 'Nombre de sala inválido' });
+const id = str({ max: 64 });
+const typingTarget = obj({ room: optional(str({ max: 64 })), to: optional(str({ max: 64 })) });
+const reaction = obj({ id, emoji: str({ max: 16, code: 'INVALID_REACTION', message: 'Reacción inválida.' }) });
+
+export const clientEvents = {
+  hello: obj({
+    username,
+    resumeToken: optional(str({ max: 128 })),
+    since: optional(num()),
+    protocol: optional(num({ integer: true, min: 1 })),
+  }),
+  'chat:public': obj({
+    text,
+    room: optional(room),
+    clientId: optional(str({ min: 1, max: 64 })),
+    replyTo: optional(id),
+    attachments: optional(
+      arr(id, {
+        max: LIMITS.attachmentsPerMessage,
+        code: 'INVALID_ATTACHMENT',
+        message: `Como máximo ${LIMITS.attachmentsPerMessage} adjuntos por mensaje.`,
+      })
+    ),
+  }),
+  'chat:private': obj({
+    to: str({ max: 64 }),
+    text: optional(text),
+    // Uno por dispositivo de los dos usuarios
+    ciphers: optional(
+      arr(
+        obj({
+          device: id,
+          iv: str({ max: 24, pattern: BASE64_PATTERN }),
+          data: str({ max: cipherMaxLength(LIMITS.textMax), pattern: BASE64_PATTERN, code: 'INVALID_MESSAGE', message: 'Mensaje cifrado inválido.' }),
+        }),
+        { max: LIMITS.devicesPerUser * 2, code: 'INVALID_MESSAGE', message: 'Mensaje cifrado inválido.' }
+      )
+    ),
+  }),
+  // Punto P-256 sin comprimir: 65 bytes, 88 caracteres en base64
+  'keys:publish': obj({ publicKey: str({ min: 88, max: 88, pattern: BASE64_PATTERN, code: 'INVALID_KEY', message: 'Clave pública inválida.' }) }),
+  'keys:fetch': obj({ username: str({ max: 64 }) }),
+  'chat:edit': obj({ id, text }),
+  'chat:delete': obj({ id }),
+  'reaction:add': reaction,
+  'reaction:remove': reaction,
+  'room:create': obj({ room }),
+  'room:join': obj({ room }),
+  'room:leave': obj({ room }),
+  'room:list': none,
+  'history:fetch': obj({ room, before: optional(id), after: optional(id), around: optional(id), limit: optional(num()) }),
+  'search:query': obj({
+    q: str({ min: 1, max: 200, code: 'INVALID_QUERY', message: 'Búsqueda vacía o demasiado larga.' }),
+    room: optional(room),
+    author: optional(str({ max: 64 })),
+    since: optional(num()),
+    until: optional(num()),
+    before: optional(id),
+    limit: optional(num()),
+  }),
+  'thread:fetch': obj({ id }),
+  'command:list': optional(obj({ room: optional(room) })),
+  'command:quit': none,
+  'command:run': obj({ input: text, room: optional(room), to: optional(str({ max: 64 })) }),
+  'typing:start': typingTarget,
+  'typing:stop': typingTarget,
+  'sessions:list': none,
+  // Sin id: todos los dispositivos menos el que lo pide
+  'sessions:revoke': obj({ id: optional(id) }),
+  'status:set': obj({ status: oneOf(USER_STATUSES, { code: 'INVALID_STATUS', message: 'Estado inválido (online, away o busy).' }) }),
+};
+
+export type ClientEvent = keyof typeof clientEvents;
+export type ClientPayload<E extends ClientEvent> = Infer<(typeof clientEvents)[E]>;
+
+export type ClientToServerEvents = {
+  [E in Exclude<ClientEvent, 'chat:public' | 'keys:fetch'>]: undefined extends ClientPayload<E>
+    ? (p?: ClientPayload<E>) => void
+    : (p: ClientPayload<E>) => void;
+} & {
+  // Con ack: el cliente sabe si el mensaje se publicó (o por qué no)
+  'chat:public': (p: ClientPayload<'chat:public'>, ack: (res: ChatAck) => void) => void;
+  // Las claves públicas de los dispositivos de un usuario conectado
+  'keys:fetch': (p: ClientPayload<'keys:fetch'>, ack: (res: KeyInfo) => void) => void;
+};
+
+export const isClientEvent = (event: string): event is ClientEvent => Object.hasOwn(clientEvents, event);
+
+/** Valida el payload de un evento de cliente */
+export const parseClientPayload = <E extends ClientEvent>(event: E, payload: unknown): Result<ClientPayload<E>> =>
+  (clientEvents[event] as Schema<ClientPayload<E>>).parse(payload, '');